@@ -21,6 +21,39 @@ type Values<T extends Indexed> = T[keyof T];
  */
 type Keys<T extends Indexed> = keyof T;
 
+/**
+ * Names of the levels of basiliskasterisk.util logs.
+ */
+type LogLevelName = "TRACE" | "INFO" | "WARN" | "ERROR" | "FATAL";
+
+/**
+ * A structured log record, as passed to log sinks.
+ */
+type LogRecord = {
+  level: LogLevelName;
+  levelValue: number;
+  /**
+   * The name of the logger, such as "roll20Api".
+   */
+  name: string;
+  time: number;
+  message: string;
+  /**
+   * Any further arguments of the log call.
+   */
+  data: any[];
+};
+
+/**
+ * Receives log records, to write or keep them.
+ */
+type LogSink = (record: LogRecord) => void;
+
+/**
+ * Omit applied to each member of a union type.
+ */
+type DistributiveOmit<T, K extends Index> = T extends any ? Omit<T, K> : never;
+
 /**
  * Permutations of union types X and Y as strings, using
  * separator Z.
@@ -80,15 +113,15 @@ const basiliskasterisk = {
       /**
        * Supported log levels.
        */
-      const LOG_LEVELS = {
+      const LOG_LEVELS: Record<LogLevelName, number> = {
         TRACE: 1,
         INFO: 10,
         WARN: 25,
         ERROR: 50,
         FATAL: 100,
-      } as const;
+      };
 
-      type LOG_LEVEL_IDENTIFIER = keyof typeof LOG_LEVELS | number;
+      type LOG_LEVEL_IDENTIFIER = LogLevelName | number;
 
       // @ts-ignore
       var global = global;
@@ -96,36 +129,223 @@ const basiliskasterisk = {
       var window = window;
 
       /**
-       * Provides a simple logger object.
+       * The function logs are emitted with by default: the sandbox's log(),
+       * or else console.log().
+       */
+      const defaultEmissionFn = (): ((str: any, ...rest: any[]) => void) =>
+        // @ts-ignore
+        (global && global.log) ||
+        // @ts-ignore
+        (window && window.log) ||
+        // @ts-ignore
+        (this && this.log) ||
+        // @ts-ignore
+        (console && console.log);
+
+      /**
+       * A sink that formats records as "name [LEVEL]: message", emitting
+       * them with any data.
+       *
+       * @param [emissionFn] - The function that actually emits the log.
+       */
+      const consoleSink = (emissionFn = defaultEmissionFn()): LogSink => ({
+        name,
+        level,
+        message,
+        data,
+      }) => emissionFn(`${name} [${level}]: ${message}`, ...data);
+
+      /**
+       * A sink that emits each record as a line of JSON. Data that can't be
+       * serialized is converted to strings.
+       *
+       * @param [emissionFn] - The function that actually emits the log.
+       */
+      const jsonLinesSink = (emissionFn = defaultEmissionFn()): LogSink => (
+        record
+      ) => {
+        let line: string;
+        try {
+          line = JSON.stringify(record);
+        } catch (err) {
+          line = JSON.stringify({ ...record, data: record.data.map(String) });
+        }
+        emissionFn(line);
+      };
+
+      /**
+       * A sink that keeps records in memory, for inspection by tests.
+       */
+      const captureSink = () => {
+        const records: LogRecord[] = [];
+        return {
+          sink: ((record) => {
+            records.push(record);
+          }) as LogSink,
+          records,
+          /**
+           * The records at or above a level.
+           *
+           * @param level
+           */
+          at: (level: LOG_LEVEL_IDENTIFIER) =>
+            records.filter(
+              ({ levelValue }) => levelValue >= _levelValue(level)
+            ),
+        };
+      };
+
+      const _levelValue = (level: LOG_LEVEL_IDENTIFIER) =>
+        typeof level === "number" ? level : LOG_LEVELS[level];
+
+      /**
+       * Levels of loggers by name, from a specification such as
+       * "roll20Api.*=WARN, TEST=ERROR" or { "roll20Api.*": "WARN" }. A name
+       * ending in ".*" also covers the loggers named under it, and "*"
+       * covers every logger. Kept most specific (longest) first.
+       */
+      let _logLevels: { pattern: string; value: number }[] = [];
+
+      /**
+       * The level set for each logger name looked up since the levels were
+       * last set, or undefined if none is.
+       */
+      let _levelsByName: Record<string, number | undefined> = {};
+
+      /**
+       * Sets the levels of loggers by name, replacing any set before.
+       *
+       * @param spec
+       */
+      const setLogLevels = (
+        spec: string | Record<string, LOG_LEVEL_IDENTIFIER>
+      ) => {
+        const entries =
+          typeof spec === "string"
+            ? spec
+                .split(/[,\s]+/)
+                .filter((entry) => entry)
+                .map((entry) => entry.split("="))
+            : Object.keys(spec).map((pattern) => [pattern, spec[pattern]]);
+        const logLevels = entries.map(([pattern, level]) => {
+          const value =
+            typeof level === "number" ||
+            (typeof level === "string" && /^\d+$/.test(level))
+              ? +level
+              : _levelValue(level as LogLevelName);
+          if (typeof value !== "number" || isNaN(value)) {
+            throw new Error(`Unknown log level for "${pattern}".`);
+          }
+          return { pattern: `${pattern}`, value };
+        });
+        logLevels.sort((a, b) => b.pattern.length - a.pattern.length);
+        _logLevels = logLevels;
+        _levelsByName = {};
+      };
+
+      /**
+       * The level of a logger: that of the most specific pattern matching
+       * its name, or else its own.
+       *
+       * @param name
+       * @param fallback
+       */
+      const _levelFor = (name: string, fallback: number) => {
+        if (!Object.prototype.hasOwnProperty.call(_levelsByName, name)) {
+          const match = _logLevels.filter(({ pattern }) => {
+            if (pattern === "*" || pattern === name) {
+              return true;
+            }
+            const prefix = pattern.replace(/\.\*$/, "");
+            return (
+              prefix !== pattern &&
+              (name === prefix || name.indexOf(`${prefix}.`) === 0)
+            );
+          })[0];
+          _levelsByName[name] = match && match.value;
+        }
+        const level = _levelsByName[name];
+        return typeof level === "number" ? level : fallback;
+      };
+
+      /**
+       * The sinks of loggers not given their own.
+       */
+      const _sinks: LogSink[] = cfg.logSinks
+        ? [...cfg.logSinks]
+        : [consoleSink()];
+
+      /**
+       * Adds a sink to loggers not given their own.
+       *
+       * @param sink
+       */
+      const addSink = (sink: LogSink) => {
+        _sinks.push(sink);
+      };
+
+      /**
+       * Removes a sink added with addSink().
+       *
+       * @param sink
+       */
+      const removeSink = (sink: LogSink) => {
+        const index = _sinks.indexOf(sink);
+        if (index > -1) {
+          _sinks.splice(index, 1);
+        }
+      };
+
+      /**
+       * Provides a simple logger object, which passes log records to sinks.
        *
-       * @param [obj.logLevel] - Logs lower than this will be suppressed.
+       * @param [obj.logLevel] - Logs lower than this will be suppressed,
+       * unless set otherwise with setLogLevels().
        * @param [obj.name] - A name to tag messages from this log.
-       * @param [obj.emissionFn] - The function that actually emits the log.
+       * @param [obj.emissionFn] - The function that actually emits the log,
+       * in place of the sinks of this library instance.
+       * @param [obj.sinks] - Sinks in place of those of this library
+       * instance.
        */
       const getLogger = ({
         logLevel = LOG_LEVELS.INFO,
         name = "LOG",
-        // @ts-ignore
-        emissionFn = (global && global.log) ||
-          // @ts-ignore
-          (window && window.log) ||
-          // @ts-ignore
-          (this && this.log) ||
-          // @ts-ignore
-          (console && console.log),
+        emissionFn,
+        sinks,
       }: {
         logLevel?: LOG_LEVEL_IDENTIFIER;
         name?: string;
         emissionFn?: (str: any, ...rest: any[]) => void;
+        sinks?: LogSink[];
       } = {}) => {
-        const logLevelValue =
-          typeof logLevel === "number" ? logLevel : LOG_LEVELS[logLevel];
+        const logLevelValue = _levelValue(logLevel);
+        const targets =
+          sinks || (emissionFn ? [consoleSink(emissionFn)] : _sinks);
 
-        const _emit = (level: keyof typeof LOG_LEVELS) => {
+        const _emit = (level: LogLevelName) => {
           return (str: any, ...rest: any[]) => {
-            if (logLevelValue <= LOG_LEVELS[level]) {
-              return emissionFn(`${name} [${level}]: ${str}`, ...rest);
+            if (_levelFor(name, logLevelValue) > LOG_LEVELS[level]) {
+              return;
+            }
+            let message: string | undefined;
+            try {
+              message = typeof str === "string" ? str : JSON.stringify(str);
+            } catch (err) {
+              message = undefined;
             }
+            if (typeof message !== "string") {
+              // Such as undefined, functions and circular objects.
+              message = String(str);
+            }
+            const record: LogRecord = {
+              level,
+              levelValue: LOG_LEVELS[level],
+              name,
+              time: Date.now(),
+              message,
+              data: rest,
+            };
+            targets.forEach((sink) => sink(record));
           };
         };
 
@@ -148,6 +368,8 @@ const basiliskasterisk = {
           return getLogger({
             logLevel,
             name: `${name}.${childName}`,
+            emissionFn,
+            sinks,
           });
         };
 
@@ -162,26 +384,36 @@ const basiliskasterisk = {
         };
       };
 
+      setLogLevels(cfg.logLevels);
+
       const defaultLogger = getLogger();
       const logger = defaultLogger;
 
       /**
-       * Gets a scope. Without arguments, this is the top-level scope for the
-       * environment. This may be global, window, the globalThis, an
-       * encapsulating 'this', or even a bare object should all that fail.
+       * The global object of the environment: globalThis where it exists,
+       * or else the 'this' of a non-strict function, which is the same.
+       */
+      const _globalObject = (): Scope =>
+        typeof globalThis !== "undefined"
+          ? (globalThis as Scope)
+          : Function("return this")();
+
+      /**
+       * Gets a scope. Without arguments, or with an empty name, this is the
+       * global object of the environment, where the sandbox's functions
+       * are found.
        *
        * @param nameOrNames - an 'ID' for the scope. Parsing may be influenced
        * via the scopeDelimiter configuration parameter.
        * @param origin - The scope in which to search.
        */
       const getScope = (
-        nameOrNames: string | string[] = "",
-        // @ts-ignore
-        origin = global || window || this || {}
+        nameOrNames: string | string[] = [],
+        origin: Scope = _globalObject()
       ): Scope => {
         const names = Array.isArray(nameOrNames)
           ? nameOrNames
-          : nameOrNames.split(cfg.scopeDelimiter);
+          : nameOrNames.split(cfg.scopeDelimiter).filter((name) => name);
 
         logger.trace(`getScope()`, nameOrNames, origin);
 
@@ -199,17 +431,92 @@ const basiliskasterisk = {
       };
 
       /**
-       * Returns a not-very-well-constructed uuid.
+       * Characters of Roll20 (firebase push) ids, in sort order.
+       */
+      const PUSH_CHARS =
+        "-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz";
+
+      // PRNG state, and the timestamp of the next id.
+      let _randomState = 0;
+      let _idTime = cfg.idEpoch;
+
+      /**
+       * Seeds the PRNG used by random(), randomInteger() and uuid(), and
+       * restarts id timestamps at the configured idEpoch. Strings are
+       * hashed to a number.
+       *
+       * @param value
+       */
+      const seed = (value: number | string) => {
+        let hash = typeof value === "number" ? value | 0 : 0;
+        if (typeof value === "string") {
+          for (let i = 0; i < value.length; i++) {
+            hash = (Math.imul(hash, 31) + value.charCodeAt(i)) | 0;
+          }
+        }
+        _randomState = hash;
+        _idTime = cfg.idEpoch;
+      };
+
+      /**
+       * Returns a pseudorandom number in [0, 1), using the mulberry32
+       * algorithm.
+       */
+      const random = () => {
+        _randomState = (_randomState + 0x6d2b79f5) | 0;
+        let t = _randomState;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      };
+
+      /**
+       * Returns a pseudorandom integer from 1 to max, inclusive.
+       *
+       * @param max
+       */
+      const randomInteger = (max: number) => Math.floor(random() * max) + 1;
+
+      /**
+       * Returns an id in the 20 character style of Roll20 object ids: 8
+       * characters of timestamp followed by 12 random ones. Each id is a
+       * millisecond 'later' than the last, so ids sort in creation order.
        */
-      const uuid = () => `x-${Math.random().toString(36).padStart(5, "-")}`;
+      const uuid = () => {
+        let time = _idTime++;
+        let id = "";
+        for (let i = 0; i < 8; i++) {
+          id = PUSH_CHARS.charAt(time % 64) + id;
+          time = Math.floor(time / 64);
+        }
+        for (let i = 0; i < 12; i++) {
+          id += PUSH_CHARS.charAt(Math.floor(random() * 64));
+        }
+        return id;
+      };
+
+      seed(
+        typeof cfg.seed === "undefined"
+          ? Math.floor(Math.random() * 4294967296)
+          : cfg.seed
+      );
 
       // The actual configured library instance.
       return {
         getScope,
         getLogger,
         uuid,
+        seed,
+        random,
+        randomInteger,
         defaultLogger,
         LOG_LEVELS,
+        setLogLevels,
+        addSink,
+        removeSink,
+        consoleSink,
+        jsonLinesSink,
+        captureSink,
       } as const;
     };
 
@@ -258,6 +565,12 @@ const basiliskasterisk = {
     defaultConfiguration: {
       scopeDelimiter: ".",
       logLevel: 10,
+      // Levels of loggers by name; see setLogLevels().
+      logLevels: "" as string | Record<string, LogLevelName | number>,
+      // Sinks of loggers not given their own. By default, a consoleSink().
+      logSinks: undefined as LogSink[] | undefined,
+      seed: undefined as number | string | undefined,
+      idEpoch: 1600000000000 as number,
     },
   } as const),
 };
@@ -290,6 +603,13 @@ const basiliskasterisk__roll20Api = ((cfg) => {
 
   const util = basiliskasterisk.util.getInstance();
 
+  /**
+   * Everything any instance has promoted to another scope. When creating
+   * an instance, these are not mistaken for the sandbox's own functions,
+   * so one instance's world never leaks into another's.
+   */
+  const _promoted: any[] = [];
+
   /**
    * This function is called to return instances of the library, configured
    * using the registered defaultConfiguration and any provided
@@ -302,7 +622,14 @@ const basiliskasterisk__roll20Api = ((cfg) => {
       ...(config || {}),
     };
 
-    // TODO: allow configuration of logger.
+    // Each instance has its own PRNG, so a seeded instance is
+    // reproducible regardless of what other instances do.
+    const util = basiliskasterisk.util.create({
+      seed: cfg.seed,
+      logLevels: cfg.logLevels,
+      logSinks: cfg.logSinks,
+    });
+
     const { trace, info, warn, error } = util.getLogger({
       logLevel: cfg.logLevel,
       name: "roll20Api",
@@ -322,6 +649,7 @@ const basiliskasterisk__roll20Api = ((cfg) => {
       if (eventName === "sheetWorkerCompleted") {
         // Unlike other events, this one clears out each queued
         // handler as it is called.
+        _eventObservers.forEach((observer) => observer(eventName, rest));
         const handlers = MOCKS._handlers[eventName] || [];
         handlers.forEach((handler) => handler(...rest));
         MOCKS._handlers[eventName] = [];
@@ -329,14 +657,93 @@ const basiliskasterisk__roll20Api = ((cfg) => {
       }
       const subEvents = eventName.split(":");
       while (subEvents.length) {
-        const n = subEvents.join(":");
-        info(`_fireEvent: Firing event '${n}'.`, ...rest);
-        const handlers = MOCKS._handlers[n] || [];
-        handlers.forEach((handler) => handler(...rest));
+        _fireHandlers(subEvents.join(":"), ...rest);
         subEvents.pop();
       }
     };
 
+    /**
+     * Calls the handlers registered for exactly one event name, without
+     * firing the more general events that _fireEvent would.
+     *
+     * @param eventName
+     * @param rest
+     */
+    const _fireHandlers = (eventName: string, ...rest: any) => {
+      info(`_fireEvent: Firing event '${eventName}'.`, ...rest);
+      _eventObservers.forEach((observer) => observer(eventName, rest));
+      const handlers = MOCKS._handlers[eventName] || [];
+      handlers.forEach((handler) => handler(...rest));
+    };
+
+    /**
+     * An event, as fired, with the arguments its handlers were called
+     * with.
+     */
+    type FiredEvent = {
+      name: string;
+      args: any[];
+    };
+
+    /**
+     * Functions told of every event fired, before its handlers are called.
+     */
+    const _eventObservers: ((eventName: string, args: any[]) => void)[] = [];
+
+    /**
+     * Sinks added to record logs, removed when their recording stops.
+     */
+    const _recordingSinks: LogSink[] = [];
+
+    /**
+     * Stops every recording started with _record().
+     */
+    const _stopRecording = () => {
+      _eventObservers.length = 0;
+      _recordingSinks.splice(0).forEach(util.removeSink);
+    };
+
+    /**
+     * Starts recording the events fired, the chat messages sent and the
+     * records logged, for assertions in tests, until stop() is called or
+     * the world is reset. Only records at or above the levels of their
+     * loggers are recorded.
+     */
+    const _record = () => {
+      const recording = {
+        events: [] as FiredEvent[],
+        chat: [] as Roll20Message[],
+        logs: [] as LogRecord[],
+        /**
+         * Stops this recording.
+         */
+        stop: () => {
+          const observerIndex = _eventObservers.indexOf(observer);
+          if (observerIndex > -1) {
+            _eventObservers.splice(observerIndex, 1);
+          }
+          const sinkIndex = _recordingSinks.indexOf(sink);
+          if (sinkIndex > -1) {
+            _recordingSinks.splice(sinkIndex, 1);
+          }
+          util.removeSink(sink);
+        },
+      };
+      const sink: LogSink = (record) => {
+        recording.logs.push(record);
+      };
+      const observer = (name: string, args: any[]) => {
+        recording.events.push({ name, args });
+        if (name === "chat:message") {
+          recording.chat.push(args[0]);
+        }
+      };
+      util.addSink(sink);
+      _recordingSinks.push(sink);
+      _eventObservers.push(observer);
+      return recording;
+    };
+
     /**
      * 'Promotes' the roll20api functions to another scope. By default, this
      * is to global state, overriding the functions within the roll20api
@@ -370,13 +777,38 @@ const basiliskasterisk__roll20Api = ((cfg) => {
       promotionKeys.forEach((key) => {
         const k = key as keyof typeof _api;
         s[k] = _api[k];
+        _promoted.push(_api[k]);
       });
       return s;
     };
 
-    let _GM: string | undefined;
-    const _setAsGM = (playerId?: string) => {
-      _GM = playerId;
+    /**
+     * The ids of players who are GMs.
+     */
+    let _GMs: string[] = [];
+
+    /**
+     * Set while a world is loaded, so objects are created without firing
+     * add events.
+     */
+    let _loading = false;
+
+    /**
+     * Sets whether a player is a GM. Without a player id, no player is a
+     * GM.
+     *
+     * @param [playerId]
+     * @param [isGM]
+     */
+    const _setAsGM = (playerId?: string, isGM = true) => {
+      if (typeof playerId === "undefined") {
+        _GMs = [];
+        return;
+      }
+      _GMs = _GMs.filter((id) => id !== playerId);
+      if (isGM) {
+        _GMs.push(playerId);
+      }
     };
 
     /**
@@ -392,6 +824,150 @@ const basiliskasterisk__roll20Api = ((cfg) => {
       return false;
     };
 
+    /**
+     * A task waiting in the virtual scheduler.
+     */
+    type ScheduledTask = {
+      id: number;
+      at: number;
+      seq: number;
+      fn: () => void;
+      interval?: number;
+    };
+
+    /**
+     * The most timeouts and other one-off tasks runAll() will run, so
+     * timeouts that keep scheduling themselves can't loop forever.
+     * Intervals don't count towards it.
+     */
+    const MAX_SCHEDULER_RUNS = 10000;
+
+    /**
+     * A virtual clock and task queue, controlled by the test. Async field
+     * callbacks, sendChat() callbacks and the mocked timers run only when
+     * the test advances time with tick() or runAll(), so the order in
+     * which they run is reproducible.
+     */
+    const scheduler = (() => {
+      let now = 0;
+      let nextId = 1;
+      let seq = 0;
+      let tasks: ScheduledTask[] = [];
+
+      const schedule = (fn: () => void, delay = 0, interval?: number) => {
+        const id = nextId++;
+        tasks.push({
+          id,
+          at: now + Math.max(0, delay),
+          seq: seq++,
+          fn,
+          interval,
+        });
+        return id;
+      };
+
+      const cancel = (id?: number) => {
+        tasks = tasks.filter((task) => task.id !== id);
+      };
+
+      // The next task due, earliest scheduled first.
+      const next = () =>
+        tasks.reduce<ScheduledTask | undefined>(
+          (earliest, task) =>
+            !earliest ||
+            task.at < earliest.at ||
+            (task.at === earliest.at && task.seq < earliest.seq)
+              ? task
+              : earliest,
+          undefined
+        );
+
+      const run = (task: ScheduledTask) => {
+        now = Math.max(now, task.at);
+        if (task.interval) {
+          task.at = now + task.interval;
+          task.seq = seq++;
+        } else {
+          cancel(task.id);
+        }
+        try {
+          task.fn();
+        } catch (err) {
+          error(`Scheduled task ${task.id} failed: ${err.toString()}`);
+        }
+      };
+
+      return {
+        /**
+         * The current virtual time, in ms.
+         */
+        now: () => now,
+        /**
+         * The number of tasks waiting to run.
+         */
+        pending: () => tasks.length,
+        /**
+         * Advances virtual time by ms, running every task that falls due,
+         * in order.
+         *
+         * @param ms
+         */
+        tick: (ms: number) => {
+          const until = now + ms;
+          for (let task = next(); task && task.at <= until; task = next()) {
+            run(task);
+          }
+          now = until;
+        },
+        /**
+         * Runs tasks until none but intervals remain, advancing virtual
+         * time as needed. Throws if MAX_SCHEDULER_RUNS one-off tasks run
+         * and some still remain, as when a timeout keeps rescheduling
+         * itself.
+         */
+        runAll: () => {
+          let runs = 0;
+          for (
+            let task = next();
+            task && tasks.some((t) => !t.interval);
+            task = next()
+          ) {
+            if (!task.interval && runs++ === MAX_SCHEDULER_RUNS) {
+              throw new Error(
+                `runAll() ran ${MAX_SCHEDULER_RUNS} timeouts without finishing, at ${now}ms; does a timeout keep rescheduling itself?`
+              );
+            }
+            run(task);
+          }
+        },
+        setTimeout: (fn: (...args: any[]) => void, delay = 0, ...args: any[]) =>
+          schedule(() => fn(...args), delay),
+        clearTimeout: cancel,
+        setInterval: (
+          fn: (...args: any[]) => void,
+          delay = 0,
+          ...args: any[]
+        ) =>
+          schedule(() => fn(...args), Math.max(1, delay), Math.max(1, delay)),
+        clearInterval: cancel,
+        /**
+         * Discards every waiting task.
+         */
+        clear: () => {
+          tasks = [];
+        },
+        /**
+         * Discards every waiting task and turns virtual time back to 0.
+         */
+        reset: () => {
+          tasks = [];
+          now = 0;
+          nextId = 1;
+          seq = 0;
+        },
+      };
+    })();
+
     /**
      * Roll20Object types that may be created in client code.
      */
@@ -402,12 +978,55 @@ const basiliskasterisk__roll20Api = ((cfg) => {
      */
     type AsyncField = typeof Roll20Object.ASYNC_FIELDS[number];
 
+    /**
+     * The types a Roll20Object property value may have, as reported by
+     * typeof.
+     */
+    type PropertyValueType = "string" | "number" | "boolean" | "object";
+
+    /**
+     * The default value and allowed value types of a Roll20Object property.
+     */
+    type PropertySchema = {
+      default: any;
+      types: PropertyValueType[];
+    };
+
+    /**
+     * Builds the property schema of a Roll20Object type. Each property's
+     * value type is that of its default, unless listed in mixed.
+     *
+     * @param type - The _type of the object.
+     * @param defaults - Every property and its default value.
+     * @param [mixed] - Properties that allow more than one value type.
+     */
+    const _schema = (
+      type: string,
+      defaults: Record<string, any>,
+      mixed: Record<string, PropertyValueType[]> = {}
+    ) => {
+      const schema: Record<string, PropertySchema> = {
+        _id: { default: "", types: ["string"] },
+        _type: { default: type, types: ["string"] },
+      };
+      Object.keys(defaults).forEach((key) => {
+        schema[key] = {
+          default: defaults[key],
+          types: mixed[key] || [typeof defaults[key] as PropertyValueType],
+        };
+      });
+      return schema;
+    };
+
+    // Value types shared by several properties.
+    const STRING_OR_NUMBER: PropertyValueType[] = ["string", "number"];
+
     /**
      * Valid forms of initializers for Roll20Objects.
      */
     type MinimalAttributeInitializer = {
       type: "attribute";
-      characterId: string;
+      characterid: string;
     };
     type MinimalPathInitializer = {
       type: "path";
@@ -437,6 +1056,116 @@ const basiliskasterisk__roll20Api = ((cfg) => {
       [key: string]: any;
     };
 
+    /**
+     * The number of arguments of each command of a path's _path.
+     */
+    const PATH_COMMAND_ARGS: Record<string, number> = {
+      M: 2,
+      L: 2,
+      Q: 4,
+      C: 6,
+    };
+
+    type PathCommand = [string, ...number[]];
+
+    /**
+     * Describes what's wrong with the _path of a path: it must be the JSON
+     * of an array of commands, starting with a move, such as
+     * [["M",0,0],["L",70,0],["Q",70,70,0,70],["C",0,35,35,35,0,0]].
+     *
+     * @param json
+     */
+    const _pathProblems = (json: JSONString) => {
+      let commands: any;
+      try {
+        commands = JSON.parse(json);
+      } catch (err) {
+        return [`_path is not JSON: ${err.message}`];
+      }
+      if (!Array.isArray(commands) || !commands.length) {
+        return ["_path must be a non-empty array of commands."];
+      }
+      const problems: string[] = [];
+      commands.forEach((command: any, i: number) => {
+        const [name, ...args] = Array.isArray(command) ? command : [];
+        const count = PATH_COMMAND_ARGS[name];
+        if (typeof count === "undefined") {
+          problems.push(`_path[${i}] is not an M, L, Q or C command.`);
+        } else if (i === 0 && name !== "M") {
+          problems.push(`_path must start with an M command.`);
+        } else if (
+          args.length !== count ||
+          !args.every((arg: any) => typeof arg === "number" && isFinite(arg))
+        ) {
+          problems.push(`_path[${i}] ${name} takes ${count} numbers.`);
+        }
+      });
+      return problems;
+    };
+
+    /**
+     * The properties of a custom fx definition, and their value types.
+     * Colours are [red, green, blue, alpha]; vectors are {x, y}.
+     */
+    const FX_DEFINITION_PROPERTIES: Record<
+      string,
+      "number" | "colour" | "vector"
+    > = {
+      angle: "number",
+      angleRandom: "number",
+      duration: "number",
+      emissionRate: "number",
+      endColour: "colour",
+      endColourRandom: "colour",
+      gravity: "vector",
+      lifeSpan: "number",
+      lifeSpanRandom: "number",
+      maxParticles: "number",
+      posRandom: "vector",
+      sharpness: "number",
+      sharpnessRandom: "number",
+      size: "number",
+      sizeRandom: "number",
+      speed: "number",
+      speedRandom: "number",
+      startColour: "colour",
+      startColourRandom: "colour",
+    };
+
+    /**
+     * Describes what's wrong with a custom fx definition.
+     *
+     * @param definition
+     */
+    const _fxDefinitionProblems = (definition: Record<string, any>) => {
+      if (!definition || typeof definition !== "object") {
+        return ["An fx definition must be an object."];
+      }
+      const isNumber = (value: any) =>
+        typeof value === "number" && isFinite(value);
+      return Object.keys(definition)
+        .map((key) => {
+          const value = definition[key];
+          switch (FX_DEFINITION_PROPERTIES[key]) {
+            case "number":
+              return isNumber(value) ? "" : `${key} must be a number.`;
+            case "colour":
+              return Array.isArray(value) &&
+                value.length === 4 &&
+                value.every(isNumber)
+                ? ""
+                : `${key} must be [red, green, blue, alpha].`;
+            case "vector":
+              return value && isNumber(value.x) && isNumber(value.y)
+                ? ""
+                : `${key} must be {x, y}.`;
+            default:
+              return `"${key}" is not an fx definition property.`;
+          }
+        })
+        .filter((problem) => problem);
+    };
+
     /**
      * An approximation of the Roll20Object class as found in the
      * roll20Api sandbox.
@@ -496,19 +1225,412 @@ const basiliskasterisk__roll20Api = ((cfg) => {
       ] as const;
 
       /**
-       * An object pool containing all non-removed() Roll20Object instances.
+       * The properties of each type of Roll20Object, with their Roll20
+       * default values and allowed value types.
        */
-      static pool: Record<string, Roll20Object> = {};
-
-      private _obj: Record<string, any>;
-
+      static SCHEMAS: Record<string, Record<string, PropertySchema>> = {
+        [Roll20Object.TYPES.CAMPAIGN]: _schema(
+          "campaign",
+          {
+            turnorder: "",
+            initiativepage: false,
+            playerpageid: false,
+            playerspecificpages: false,
+            _journalfolder: "",
+            _jukeboxfolder: "",
+          },
+          {
+            initiativepage: ["boolean", "string"],
+            playerpageid: ["boolean", "string"],
+            playerspecificpages: ["boolean", "object"],
+          }
+        ),
+        [Roll20Object.TYPES.GRAPHIC]: _schema(
+          "graphic",
+          {
+            _subtype: "token",
+            _cardid: "",
+            _pageid: "",
+            imgsrc: "",
+            represents: "",
+            left: 0,
+            top: 0,
+            width: 0,
+            height: 0,
+            rotation: 0,
+            layer: "",
+            isdrawing: false,
+            flipv: false,
+            fliph: false,
+            name: "",
+            gmnotes: "",
+            controlledby: "",
+            bar1_link: "",
+            bar2_link: "",
+            bar3_link: "",
+            bar1_value: "",
+            bar2_value: "",
+            bar3_value: "",
+            bar1_max: "",
+            bar2_max: "",
+            bar3_max: "",
+            aura1_radius: "",
+            aura2_radius: "",
+            aura1_color: "#FFFF99",
+            aura2_color: "#59E594",
+            aura1_square: false,
+            aura2_square: false,
+            tint_color: "transparent",
+            statusmarkers: "",
+            showname: false,
+            showplayers_name: false,
+            showplayers_bar1: false,
+            showplayers_bar2: false,
+            showplayers_bar3: false,
+            showplayers_aura1: false,
+            showplayers_aura2: false,
+            playersedit_name: true,
+            playersedit_bar1: true,
+            playersedit_bar2: true,
+            playersedit_bar3: true,
+            playersedit_aura1: true,
+            playersedit_aura2: true,
+            light_radius: "",
+            light_dimradius: "",
+            light_otherplayers: false,
+            light_hassight: false,
+            light_angle: "360",
+            light_losangle: "360",
+            light_multiplier: 1,
+            adv_fow_view_distance: "",
+            has_bright_light_vision: false,
+            has_night_vision: false,
+            night_vision_distance: 0,
+            emits_bright_light: false,
+            bright_light_distance: 0,
+            emits_low_light: false,
+            low_light_distance: 0,
+            lastmove: "",
+          },
+          {
+            bar1_value: STRING_OR_NUMBER,
+            bar2_value: STRING_OR_NUMBER,
+            bar3_value: STRING_OR_NUMBER,
+            bar1_max: STRING_OR_NUMBER,
+            bar2_max: STRING_OR_NUMBER,
+            bar3_max: STRING_OR_NUMBER,
+            aura1_radius: STRING_OR_NUMBER,
+            aura2_radius: STRING_OR_NUMBER,
+            light_radius: STRING_OR_NUMBER,
+            light_dimradius: STRING_OR_NUMBER,
+            light_angle: STRING_OR_NUMBER,
+            light_losangle: STRING_OR_NUMBER,
+            adv_fow_view_distance: STRING_OR_NUMBER,
+          }
+        ),
+        [Roll20Object.TYPES.TEXT]: _schema("text", {
+          _pageid: "",
+          top: 0,
+          left: 0,
+          width: 0,
+          height: 0,
+          text: "",
+          font_size: 16,
+          rotation: 0,
+          color: "rgb(0, 0, 0)",
+          font_family: "Arial",
+          layer: "",
+          controlledby: "",
+        }),
+        [Roll20Object.TYPES.PATH]: _schema("path", {
+          _pageid: "",
+          _path: "",
+          fill: "transparent",
+          stroke: "#000000",
+          rotation: 0,
+          layer: "",
+          stroke_width: 5,
+          width: 0,
+          height: 0,
+          top: 0,
+          left: 0,
+          scaleX: 1,
+          scaleY: 1,
+          controlledby: "",
+        }),
+        [Roll20Object.TYPES.CHARACTER]: _schema("character", {
+          avatar: "",
+          name: "",
+          bio: "",
+          gmnotes: "",
+          archived: false,
+          inplayerjournals: "",
+          controlledby: "",
+          _defaulttoken: "",
+        }),
+        [Roll20Object.TYPES.ABILITY]: _schema("ability", {
+          _characterid: "",
+          name: "",
+          description: "",
+          action: "",
+          istokenaction: false,
+        }),
+        [Roll20Object.TYPES.ATTRIBUTE]: _schema(
+          "attribute",
+          {
+            _characterid: "",
+            name: "Untitled_Attribute",
+            current: "",
+            max: "",
+          },
+          {
+            current: STRING_OR_NUMBER,
+            max: STRING_OR_NUMBER,
+          }
+        ),
+        [Roll20Object.TYPES.HANDOUT]: _schema("handout", {
+          avatar: "",
+          name: "Mysterious Note",
+          notes: "",
+          gmnotes: "",
+          inplayerjournals: "",
+          archived: false,
+          controlledby: "",
+        }),
+        [Roll20Object.TYPES.ROLLABLE_TABLE]: _schema("rollabletable", {
+          name: "new-table",
+          showplayers: true,
+        }),
+        [Roll20Object.TYPES.TABLE_ITEM]: _schema("tableitem", {
+          _rollabletableid: "",
+          avatar: "",
+          name: "",
+          weight: 1,
+        }),
+        [Roll20Object.TYPES.MACRO]: _schema("macro", {
+          _playerid: "",
+          name: "",
+          action: "",
+          visibleto: "",
+          istokenaction: false,
+        }),
+        [Roll20Object.TYPES.PAGE]: _schema("page", {
+          _zorder: "",
+          name: "",
+          showgrid: true,
+          showdarkness: false,
+          showlighting: false,
+          width: 25,
+          height: 25,
+          snapping_increment: 1,
+          grid_opacity: 0.5,
+          fog_opacity: 0.35,
+          background_color: "#FFFFFF",
+          gridcolor: "#C0C0C0",
+          grid_type: "square",
+          scale_units: "ft",
+          scale_number: 5,
+          gridlabels: false,
+          diagonaltype: "foure",
+          archived: false,
+          lightupdatedrop: false,
+          lightenforcelos: false,
+          lightrestrictmove: false,
+          lightglobalillum: false,
+          dynamic_lighting_enabled: false,
+          explorer_mode: "off",
+          jukeboxtrigger: "",
+        }),
+        [Roll20Object.TYPES.PLAYER]: _schema("player", {
+          _d20userid: "",
+          _displayname: "",
+          _online: false,
+          _lastpage: "",
+          _macrobar: "",
+          speakingas: "",
+          color: "#13B9F0",
+          showmacrobar: false,
+        }),
+        [Roll20Object.TYPES.DECK]: _schema("deck", {
+          name: "",
+          _currentDeck: "",
+          _currentIndex: -1,
+          _currentCardShown: true,
+          showplayers: true,
+          playerscandraw: true,
+          avatar: "",
+          shown: false,
+          players_seenumcards: true,
+          players_seefrontofcards: false,
+          gm_seenumcards: true,
+          gm_seefrontofcards: false,
+          infinitecards: false,
+          _cardSequencer: -1,
+          cardsplayed: "faceup",
+          defaultheight: "",
+          defaultwidth: "",
+          discardpilemode: "none",
+          _discardPile: "",
+        }),
+        [Roll20Object.TYPES.CARD]: _schema("card", {
+          name: "",
+          avatar: "",
+          _deckid: "",
+          card_back: "",
+        }),
+        [Roll20Object.TYPES.HAND]: _schema("hand", {
+          currentHand: "",
+          _parentid: "",
+          currentView: "bydeck",
+        }),
+        [Roll20Object.TYPES.CUSTOM_FX]: _schema("custfx", {
+          name: "",
+          definition: {},
+        }),
+        [Roll20Object.TYPES.JUKEBOX_TRACK]: _schema("jukeboxtrack", {
+          playing: false,
+          softstop: false,
+          title: "",
+          volume: 30,
+          loop: false,
+        }),
+      };
+
+      /**
+       * Checks of property values beyond their type, by object type and
+       * key. Each returns what is wrong with a value.
+       */
+      static VALUE_CHECKS: Record<
+        string,
+        Record<string, (value: any) => string[]>
+      > = {
+        [Roll20Object.TYPES.PATH]: {
+          _path: (value) => _pathProblems(value),
+        },
+        [Roll20Object.TYPES.CUSTOM_FX]: {
+          definition: (value) => _fxDefinitionProblems(value),
+        },
+      };
+
+      /**
+       * Types of Roll20Object that are removed along with their 'parent'
+       * object, and the key that refers to the parent.
+       */
+      static DEPENDENT_TYPES: Record<
+        string,
+        { type: string; key: string }[]
+      > = {
+        [Roll20Object.TYPES.CHARACTER]: [
+          { type: Roll20Object.TYPES.ATTRIBUTE, key: "characterid" },
+          { type: Roll20Object.TYPES.ABILITY, key: "characterid" },
+        ],
+        [Roll20Object.TYPES.ROLLABLE_TABLE]: [
+          { type: Roll20Object.TYPES.TABLE_ITEM, key: "rollabletableid" },
+        ],
+      };
+
+      /**
+       * An object pool containing all non-removed() Roll20Object instances.
+       * Each library instance defines its own Roll20Object class, so each
+       * has its own pool.
+       */
+      static pool: Record<string, Roll20Object> = {};
+
+      /**
+       * Keys with secondary indexes, used by findObjs() to avoid scanning
+       * the whole pool.
+       */
+      static INDEXED_KEYS = [
+        "_type",
+        "_pageid",
+        "characterid",
+        "_characterid",
+      ] as const;
+
+      /**
+       * Secondary indexes of the pool: objects by id, by lowercased value,
+       * by indexed key.
+       */
+      static indexes: Record<
+        string,
+        Record<string, Record<string, Roll20Object>>
+      > = {};
+
+      /**
+       * Empties the secondary indexes.
+       */
+      static clearIndexes() {
+        Roll20Object.INDEXED_KEYS.forEach(
+          (key) => (Roll20Object.indexes[key] = {})
+        );
+      }
+
+      /**
+       * The index bucket for a value of an indexed key. Reading a bucket
+       * that doesn't exist returns an empty one, without adding it.
+       *
+       * @param key
+       * @param value
+       * @param [create] - Add the bucket to the index if it doesn't exist.
+       */
+      static indexBucket(key: string, value: any, create = false) {
+        const index = (Roll20Object.indexes[key] =
+          Roll20Object.indexes[key] || {});
+        const indexValue = `${value}`.toLowerCase();
+        if (!index[indexValue] && create) {
+          index[indexValue] = {};
+        }
+        return index[indexValue] || {};
+      }
+
+      /**
+       * The number of objects created, used to order index lookups.
+       */
+      static created = 0;
+
+      private _obj: Record<string, any>;
+
+      /**
+       * The order in which this object was created, among the objects of
+       * this library instance.
+       */
+      readonly _sequence = ++Roll20Object.created;
+
+      /**
+       * Ids standing in for the contents of async fields in snapshots.
+       * They change whenever the field does.
+       */
+      private _blobIds: Record<string, string> = {};
+
       constructor(obj: Roll20ObjectInitializer) {
         // TODO: test behavior when trying to set _id in sandbox.
-        this._obj = obj;
-        this._obj._type = this._obj._type || this._obj.type;
+        const { type, ...props } = obj as Record<string, any>;
+        const _type = props._type || type;
+        const schema = Roll20Object.SCHEMAS[_type] || {};
+
+        this._obj = {};
+        Object.keys(schema).forEach((key) => {
+          // Copy defaults, so objects and arrays aren't shared.
+          this._obj[key] = JSON.parse(JSON.stringify(schema[key].default));
+        });
+        this._obj._type = _type;
+
+        // Read-only properties may be initialized without the underscore,
+        // as with createObj("attribute", { characterid }).
+        Object.keys(props).forEach((key) => {
+          const schemaKey = !schema[key] && schema[`_${key}`] ? `_${key}` : key;
+          if (this._validate(schemaKey, props[key])) {
+            this._obj[schemaKey] = props[key];
+          }
+        });
         this._obj._id = this._obj._id || util.uuid();
 
         Roll20Object.pool[this._obj._id] = this;
+        this._index();
+
+        if (!_loading) {
+          _fireEvent(`add:${this._obj._type}`, this);
+        }
       }
 
       get id() {
@@ -529,12 +1651,21 @@ const basiliskasterisk__roll20Api = ((cfg) => {
             if (!cb) {
               throw new Error(`Callback required to get key "#{key}".`);
             }
+            // The value is read when the callback runs, as it would be
+            // fetched then in the sandbox.
+            scheduler.setTimeout(
+              () => cb(this._obj[key]),
+              cfg.latency.asyncFields
+            );
+            return;
           }
         }
 
-        const value = this._obj[key];
+        const value =
+          key in this._obj || !(`_${key}` in this._obj)
+            ? this._obj[key]
+            : this._obj[`_${key}`];
 
-        // TODO: allow a delay before callback is called.
         return cb ? cb(value) : value;
       }
 
@@ -555,18 +1686,14 @@ const basiliskasterisk__roll20Api = ((cfg) => {
               }
             : changesOrKey;
 
-        Object.keys(allChanges).forEach((key) => {
-          if (IMMUTABLE_KEYS.indexOf(key as ImmutableKey) > -1) {
-            error(`You may not set key "${key}".`);
-          } else {
-            this._obj[key] = allChanges[key];
-          }
-        });
+        this._applyChanges(allChanges);
       }
 
       /**
        * Makes a set of changes to a Roll20Object via webworker. To receive
        * notice that the change has completed, you must register an
+       * onSheetWorkerCompleted() callback. Sheet workers registered with
+       * _registerSheetWorker() are run for the changes.
        * @param changes
        */
       setWithWorker(changes: Record<string, any>) {
@@ -574,23 +1701,215 @@ const basiliskasterisk__roll20Api = ((cfg) => {
           throw new Error(`Can't call setWithWorker on non-attribute objects.`);
         }
 
+        const prev = this._snapshot();
+        this._applyChanges(changes)
+          .filter((key) => key === "current" || key === "max")
+          .forEach((key) => _triggerSheetWorkers(this, key, prev[key], "api"));
+        _runSheetWorkers();
+      }
+      /**
+       * Applies changes, then fires change:<type>:<key> for each key whose
+       * value actually changed, followed by change:<type>. Handlers receive
+       * the object and a snapshot of its properties from before the
+       * changes. Returns the keys that changed.
+       *
+       * @param changes
+       */
+      private _applyChanges(changes: Record<string, any>) {
+        const prev = this._snapshot();
+        const changedKeys: string[] = [];
+        const reindex = Object.keys(changes).some(
+          (key) =>
+            Roll20Object.INDEXED_KEYS.indexOf(
+              key as typeof Roll20Object.INDEXED_KEYS[number]
+            ) > -1
+        );
+
+        if (reindex) {
+          this._unindex();
+        }
+
         Object.keys(changes).forEach((key) => {
           if (IMMUTABLE_KEYS.indexOf(key as ImmutableKey) > -1) {
             error(`You may not set key "${key}".`);
-          } else {
-            this._obj[key] = changes[key];
+            return;
+          }
+          if (!this._validate(key, changes[key])) {
+            return;
+          }
+          if (JSON.stringify(this._obj[key]) === JSON.stringify(changes[key])) {
+            return;
+          }
+          this._obj[key] = changes[key];
+          delete this._blobIds[key];
+          changedKeys.push(key);
+        });
+
+        if (reindex) {
+          this._index();
+        }
+
+        if (changedKeys.length === 0) {
+          return changedKeys;
+        }
+
+        const type = this._obj._type;
+        changedKeys.forEach((key) =>
+          _fireHandlers(`change:${type}:${key}`, this, prev)
+        );
+        _fireEvent(`change:${type}`, this, prev);
+        return changedKeys;
+      }
+
+      /**
+       * Checks a property value against the schema for this object's type.
+       * Values of the wrong type, or failing VALUE_CHECKS, are rejected.
+       * Unknown keys are warned about, and also rejected if the
+       * strictSchema option is set.
+       *
+       * @param key
+       * @param value
+       */
+      private _validate(key: string, value: any) {
+        const schema = Roll20Object.SCHEMAS[this._obj._type];
+        if (!schema) {
+          return true;
+        }
+        const propertySchema = schema[key];
+        if (!propertySchema) {
+          const message = `"${key}" is not a property of ${this._obj._type}.`;
+          if (cfg.strictSchema) {
+            error(message);
+            return false;
+          }
+          warn(message);
+          return true;
+        }
+        const valueType = typeof value as PropertyValueType;
+        if (propertySchema.types.indexOf(valueType) === -1) {
+          error(
+            `${this._obj._type}.${key} must be ${propertySchema.types.join(
+              " or "
+            )}, not ${valueType}.`
+          );
+          return false;
+        }
+        const check = (Roll20Object.VALUE_CHECKS[this._obj._type] || {})[key];
+        const problems = check ? check(value) : [];
+        if (problems.length) {
+          problems.forEach((problem) =>
+            error(`${this._obj._type}: ${problem}`)
+          );
+          return false;
+        }
+        return true;
+      }
+
+      /**
+       * Adds this object to the secondary indexes.
+       */
+      private _index() {
+        Roll20Object.INDEXED_KEYS.forEach((key) => {
+          if (typeof this._obj[key] !== "undefined") {
+            Roll20Object.indexBucket(key, this._obj[key], true)[this.id] = this;
+          }
+        });
+      }
+
+      /**
+       * Removes this object from the secondary indexes.
+       */
+      private _unindex() {
+        Roll20Object.INDEXED_KEYS.forEach((key) => {
+          if (typeof this._obj[key] !== "undefined") {
+            const indexValue = `${this._obj[key]}`.toLowerCase();
+            const bucket = Roll20Object.indexBucket(key, indexValue);
+            delete bucket[this.id];
+            if (!Object.keys(bucket).length) {
+              delete Roll20Object.indexes[key][indexValue];
+            }
+          }
+        });
+      }
+
+      /**
+       * Whether this object matches findObjs() attributes. As in the
+       * sandbox, "id" and "_id", "type" and "_type" (and other keys with
+       * and without the underscore) are aliases, and values are compared
+       * loosely. Async fields can't be matched.
+       *
+       * @param attrs
+       * @param caseInsensitive - Compare string values case-insensitively.
+       */
+      _matches(attrs: Roll20ObjectSearchKey, caseInsensitive = false) {
+        const isAsync = Roll20Object.ASYNC_TYPES.indexOf(this._obj._type) > -1;
+        return Object.keys(attrs).every((key) => {
+          const alias = key.charAt(0) === "_" ? key.slice(1) : `_${key}`;
+          if (
+            isAsync &&
+            Roll20Object.ASYNC_FIELDS.indexOf(key as AsyncField) > -1
+          ) {
+            return false;
+          }
+          const value = key in this._obj ? this._obj[key] : this._obj[alias];
+          const expected = attrs[key];
+          if (
+            caseInsensitive &&
+            typeof value === "string" &&
+            typeof expected === "string"
+          ) {
+            return value.toLowerCase() === expected.toLowerCase();
           }
+          return value == expected;
         });
+      }
+
+      /**
+       * Returns a plain-object copy of this object's properties, including
+       * the contents of async fields. JSON.stringify() uses this.
+       */
+      toJSON() {
+        return JSON.parse(JSON.stringify(this._obj)) as Record<string, any>;
+      }
 
-        // TODO: force call to worker handler.
-        _fireEvent("sheetWorkerCompleted");
+      /**
+       * Returns a plain-object copy of this object's properties, as passed
+       * to change handlers as 'prev'. As in the sandbox, async fields are
+       * represented by ids rather than their contents.
+       */
+      _snapshot() {
+        const snapshot = JSON.parse(JSON.stringify(this._obj));
+        if (Roll20Object.ASYNC_TYPES.indexOf(this._obj._type) > -1) {
+          Roll20Object.ASYNC_FIELDS.forEach((field) => {
+            if (typeof snapshot[field] !== "undefined") {
+              this._blobIds[field] = this._blobIds[field] || util.uuid();
+              snapshot[field] = this._blobIds[field];
+            }
+          });
+        }
+        return snapshot as Record<string, any>;
       }
+
+      /**
+       * Removes the object from the pool, firing destroy:<type>. Objects
+       * that belong to this one (see DEPENDENT_TYPES) are removed with it.
+       */
       remove() {
-        if (Roll20Object.pool[this.id] === this) {
+        if (Roll20Object.pool[this.id] !== this) {
           error(`Can't remove obj; id ${this.id} not found in pool.`);
           return;
         }
         delete Roll20Object.pool[this.id];
+        this._unindex();
+        _fireEvent(`destroy:${this._obj._type}`, this);
+
+        (Roll20Object.DEPENDENT_TYPES[this._obj._type] || []).forEach(
+          ({ type, key }) => {
+            MOCKS.findObjs({ _type: type, [key]: this.id }).forEach((obj) =>
+              obj.remove()
+            );
+          }
+        );
         return this;
       }
     }
@@ -625,103 +1944,3455 @@ const basiliskasterisk__roll20Api = ((cfg) => {
       y: number;
     };
 
-    type Roll20Message = {
+    /**
+     * A point to compare die results against, as found in roll mods.
+     * Roll20 treats ">" as greater-than-or-equal and "<" as
+     * less-than-or-equal.
+     */
+    type ComparisonPoint = {
+      comp: ">=" | "<=" | "==";
+      point: number;
+    };
+
+    /**
+     * Modifiers applied to a roll or a group roll.
+     */
+    type RollMods = {
+      keep?: { end: "h" | "l"; count: number };
+      drop?: { end: "h" | "l"; count: number };
+      exploding?: ComparisonPoint;
+      compounding?: ComparisonPoint;
+      penetrating?: ComparisonPoint;
+      reroll?: ComparisonPoint[];
+      rerollOnce?: ComparisonPoint[];
+      success?: ComparisonPoint;
+      failure?: ComparisonPoint;
+      customCrit?: ComparisonPoint[];
+      customFumble?: ComparisonPoint[];
+      sort?: "a" | "d";
+    };
+
+    /**
+     * A single result within a roll. Dropped results are marked with d,
+     * rerolled results with r.
+     */
+    type DieResult = {
+      v: number;
+      d?: boolean;
+      r?: boolean;
       [key: string]: any;
     };
 
     /**
-     * 'Normal' types of fx.
+     * Whether a roll totals its results or counts its successes.
      */
-    const SPAWN_FX_TYPES = {
-      BOMB: "bomb",
-      BUBBLING: "bubbling",
-      BURN: "burn",
-      BURST: "burst",
-      EXPLODE: "explode",
-      GLOW: "glow",
-      MISSLE: "missle",
-      NOVA: "nova",
-    } as const;
+    type RollResultType = "sum" | "success";
 
-    type SpawnFXType = Values<typeof SPAWN_FX_TYPES>;
+    /**
+     * The entries of results.rolls[], as Roll20 reports them: "R" for
+     * dice, "G" for groups, "M" for math and "C" for inline labels.
+     */
+    type RollEntry =
+      | {
+          type: "R";
+          dice: number;
+          sides: number | "F";
+          mods: RollMods;
+          results: DieResult[];
+          [key: string]: any;
+        }
+      | {
+          type: "G";
+          rolls: RollEntry[][];
+          mods: RollMods;
+          resultType: RollResultType;
+          results: DieResult[];
+        }
+      | { type: "M"; expr: string }
+      | { type: "C"; text: string };
 
     /**
-     * Types of fx that work between points.
+     * The results of a roll, as found in the content of a rollresult
+     * message and in msg.inlinerolls[].results.
      */
-    const SPAWN_FX_BETWEEN_TYPES = {
-      ...SPAWN_FX_TYPES,
-      BEAM: "beam",
-      BREATH: "breath",
-      SPLATTER: "splatter",
-    } as const;
+    type RollResults = {
+      type: "V";
+      rolls: RollEntry[];
+      resultType: RollResultType;
+      total: number;
+    };
 
-    type SpawnFXBetweenType = Values<typeof SPAWN_FX_BETWEEN_TYPES>;
+    /**
+     * An entry of msg.inlinerolls.
+     */
+    type InlineRoll = {
+      expression: string;
+      results: RollResults;
+      rollid: string;
+      signature: boolean;
+    };
 
     /**
-     * Colors of fx.
+     * Functions that may be used in roll math.
      */
-    const SPAWN_FX_COLORS = {
-      ACID: "acid",
-      BLOOD: "blood",
-      CHARM: "charm",
-      DEATH: "death",
-      FIRE: "fire",
-      FROST: "frost",
-      HOLY: "holy",
-      MAGIC: "magic",
-      SLIME: "slime",
-      SMOKE: "smoke",
-      WATER: "water",
-    } as const;
+    const ROLL_FUNCTIONS: Record<string, (x: number) => number> = {
+      floor: Math.floor,
+      ceil: Math.ceil,
+      round: Math.round,
+      abs: Math.abs,
+    };
 
-    type SpawnFxColor = Values<typeof SPAWN_FX_COLORS>;
+    /**
+     * The most dice a single reroll or explosion may add, so d1! and
+     * friends terminate.
+     */
+    const MAX_ROLL_ITERATIONS = 100;
 
-    type FxBetweenNames = Permuted<SpawnFXBetweenType, SpawnFxColor>;
-    type FxNames = Permuted<SpawnFXType, SpawnFxColor>;
+    /**
+     * Tests a die value against a comparison point.
+     *
+     * @param value
+     * @param point
+     */
+    const _matchesPoint = (value: number, { comp, point }: ComparisonPoint) =>
+      comp === ">="
+        ? value >= point
+        : comp === "<="
+        ? value <= point
+        : value === point;
 
-    const MOCKS = {
-      /**
-       * The underscore library. Outside of the roll20api sandbox, we
-       * attempt to load the actual library, but provide a very basic
-       * stand in as a last-ditch effort.
-       */
-      _: (() => {
-        // @ts-ignore
-        var require = require;
-        if (typeof require === "function") {
-          try {
-            const underscore = require("underscore");
-            return underscore;
-          } catch (err) {
-            warn(
-              "Failed to require underscore library. Will use basic stub as mock if necessary."
-            );
-          }
-        }
-        return new Proxy(
-          {
-            map: <T, U = any>(
-              arr: T[],
-              cb: (item: T, index: number, array: T[]) => U[]
-            ) => arr.map(cb),
-            toJSON: () => "",
-            toString: () => "",
-          },
-          {
-            get: (obj: any, key) => {
-              if (key in obj) {
-                return obj[key];
-              }
-              error(`"${key.toString()}" field of Underscore not mocked!`);
-            },
-          }
+    /**
+     * Marks results as dropped according to keep and drop mods. Rerolled
+     * results are ignored.
+     *
+     * @param results
+     * @param mods
+     */
+    const _applyKeepDrop = (results: DieResult[], mods: RollMods) => {
+      const live = results.filter((result) => !result.r);
+      const ascending = live.slice().sort((a, b) => a.v - b.v);
+      let dropped: DieResult[] = [];
+      if (mods.keep) {
+        const { end, count } = mods.keep;
+        dropped =
+          end === "h"
+            ? ascending.slice(0, Math.max(live.length - count, 0))
+            : ascending.slice(count);
+      } else if (mods.drop) {
+        const { end, count } = mods.drop;
+        dropped =
+          end === "l"
+            ? ascending.slice(0, count)
+            : ascending.slice(Math.max(live.length - count, 0));
+      }
+      dropped.forEach((result) => (result.d = true));
+    };
+
+    /**
+     * The value of a set of results: their sum, or successes less
+     * failures when the mods include a success target.
+     *
+     * @param results
+     * @param mods
+     */
+    const _resultsValue = (results: DieResult[], mods: RollMods) => {
+      const counted = results.filter((result) => !result.r && !result.d);
+      if (mods.success || mods.failure) {
+        return counted.reduce(
+          (total, { v }) =>
+            total +
+            (mods.success && _matchesPoint(v, mods.success) ? 1 : 0) -
+            (mods.failure && _matchesPoint(v, mods.failure) ? 1 : 0),
+          0
         );
-      })(),
+      }
+      return counted.reduce((total, { v }) => total + v, 0);
+    };
 
-      /**
-       * Mocked version of the roll20Api sandbox state.
+    /**
+     * Evaluates a Roll20 dice expression, such as "2d20kh1+5" or
+     * "{4d6!, 3d8}>10", returning results in the structure Roll20 uses.
+     *
+     * Supported: NdM, dF, d%, keep/drop (k, kh, kl, d, dh, dl), exploding
+     * (!, !!, !p), rerolls (r, ro), success and failure targets (>, <, =,
+     * f), sorting (s, sa, sd), crit points (cs, cf), groups, + - * / % **,
+     * parentheses, floor(), ceil(), round(), abs(), [labels] and rollable
+     * tables (1t[Loot]).
+     *
+     * @param expression
+     * @param [options.playerid] - The player rolling, who may only roll on
+     * tables they can see. Omit for rolls made by the API.
+     */
+    const rollDice = (
+      expression: string,
+      { playerid }: { playerid?: string } = {}
+    ): RollResults => {
+      const src = expression;
+      let pos = 0;
+      let rolls: RollEntry[] = [];
+      let math = "";
+      let resultType: RollResultType = "sum";
+
+      const fail = (reason: string): never => {
+        throw new Error(
+          `Could not parse roll "${expression}" at position ${pos}: ${reason}.`
+        );
+      };
+
+      const peek = (str: string) =>
+        src.substr(pos, str.length).toLowerCase() === str;
+
+      const flush = () => {
+        if (math) {
+          rolls.push({ type: "M", expr: math });
+          math = "";
+        }
+      };
+
+      const emit = (entry: RollEntry) => {
+        flush();
+        rolls.push(entry);
+      };
+
+      // Skips whitespace, recording [labels] as comments.
+      const skip = () => {
+        for (;;) {
+          const label = src.slice(pos).match(/^\s*\[([^\]]*)\]/);
+          if (label) {
+            pos += label[0].length;
+            emit({ type: "C", text: label[1] });
+            continue;
+          }
+          const space = src.slice(pos).match(/^\s+/);
+          if (!space) {
+            return;
+          }
+          pos += space[0].length;
+        }
+      };
+
+      const readNumber = () => {
+        const match = src.slice(pos).match(/^\d+(\.\d+)?/);
+        if (!match) {
+          return undefined;
+        }
+        pos += match[0].length;
+        return match[0];
+      };
+
+      const readPoint = (): ComparisonPoint | undefined => {
+        const start = pos;
+        const comp = src.charAt(pos);
+        if (comp === ">" || comp === "<" || comp === "=") {
+          pos++;
+        }
+        const point = readNumber();
+        if (typeof point === "undefined") {
+          pos = start;
+          return undefined;
+        }
+        return {
+          comp: comp === ">" ? ">=" : comp === "<" ? "<=" : "==",
+          point: parseFloat(point),
+        };
+      };
+
+      const requirePoint = (mod: string) =>
+        readPoint() || fail(`"${mod}" requires a number`);
+
+      const readCount = (mod: string) => {
+        const count = readNumber();
+        return typeof count === "undefined"
+          ? fail(`"${mod}" requires a number`)
+          : parseInt(count, 10);
+      };
+
+      // Reads mods following a roll. Groups only take keep, drop, success
+      // and failure mods.
+      const readMods = (max: number, isGroup = false) => {
+        const mods: RollMods = {};
+        for (;;) {
+          if (!isGroup && peek("!!")) {
+            pos += 2;
+            mods.compounding = readPoint() || { comp: ">=", point: max };
+          } else if (!isGroup && peek("!p")) {
+            pos += 2;
+            mods.penetrating = readPoint() || { comp: ">=", point: max };
+          } else if (!isGroup && peek("!")) {
+            pos += 1;
+            mods.exploding = readPoint() || { comp: ">=", point: max };
+          } else if (peek("kh") || peek("kl")) {
+            const end = src.charAt(pos + 1).toLowerCase() as "h" | "l";
+            pos += 2;
+            mods.keep = { end, count: readCount(`k${end}`) };
+          } else if (peek("k")) {
+            pos += 1;
+            mods.keep = { end: "h", count: readCount("k") };
+          } else if (peek("dh") || peek("dl")) {
+            const end = src.charAt(pos + 1).toLowerCase() as "h" | "l";
+            pos += 2;
+            mods.drop = { end, count: readCount(`d${end}`) };
+          } else if (peek("d") && /\d/.test(src.charAt(pos + 1))) {
+            pos += 1;
+            mods.drop = { end: "l", count: readCount("d") };
+          } else if (!isGroup && peek("ro")) {
+            pos += 2;
+            mods.rerollOnce = [...(mods.rerollOnce || []), requirePoint("ro")];
+          } else if (!isGroup && peek("r")) {
+            pos += 1;
+            mods.reroll = [...(mods.reroll || []), requirePoint("r")];
+          } else if (!isGroup && peek("cs")) {
+            pos += 2;
+            mods.customCrit = [...(mods.customCrit || []), requirePoint("cs")];
+          } else if (!isGroup && peek("cf")) {
+            pos += 2;
+            mods.customFumble = [
+              ...(mods.customFumble || []),
+              requirePoint("cf"),
+            ];
+          } else if (!isGroup && (peek("sa") || peek("sd"))) {
+            mods.sort = src.charAt(pos + 1).toLowerCase() as "a" | "d";
+            pos += 2;
+          } else if (!isGroup && peek("s")) {
+            pos += 1;
+            mods.sort = "a";
+          } else if (peek("f")) {
+            pos += 1;
+            mods.failure = requirePoint("f");
+          } else if (/[<>=]/.test(src.charAt(pos))) {
+            mods.success = requirePoint("success target");
+          } else {
+            return mods;
+          }
+        }
+      };
+
+      const rollDie = (sides: number | "F") =>
+        sides === "F" ? _api.randomInteger(3) - 2 : _api.randomInteger(sides);
+
+      const roll = (dice: number, sides: number | "F") => {
+        const mods = readMods(sides === "F" ? 1 : sides);
+        const results: DieResult[] = [];
+        const rerolls = mods.rerollOnce || mods.reroll || [];
+        const mustReroll = (v: number) =>
+          rerolls.some((point) => _matchesPoint(v, point));
+
+        for (let i = 0; i < dice; i++) {
+          let v = rollDie(sides);
+          for (
+            let n = 0;
+            mustReroll(v) && n < (mods.rerollOnce ? 1 : MAX_ROLL_ITERATIONS);
+            n++
+          ) {
+            results.push({ v, r: true });
+            v = rollDie(sides);
+          }
+
+          const explosion =
+            mods.compounding || mods.exploding || mods.penetrating;
+          if (mods.compounding) {
+            let total = v;
+            for (
+              let n = 0;
+              _matchesPoint(v, mods.compounding) && n < MAX_ROLL_ITERATIONS;
+              n++
+            ) {
+              v = rollDie(sides);
+              total += v;
+            }
+            results.push({ v: total });
+          } else if (explosion) {
+            results.push({ v });
+            for (
+              let n = 0;
+              _matchesPoint(v, explosion) && n < MAX_ROLL_ITERATIONS;
+              n++
+            ) {
+              v = rollDie(sides);
+              results.push({ v: mods.penetrating ? v - 1 : v });
+            }
+          } else {
+            results.push({ v });
+          }
+        }
+
+        if (mods.sort) {
+          results.sort((a, b) => (mods.sort === "a" ? a.v - b.v : b.v - a.v));
+        }
+        _applyKeepDrop(results, mods);
+        if (mods.success || mods.failure) {
+          resultType = "success";
+        }
+
+        emit({ type: "R", dice, sides, mods, results });
+        return _resultsValue(results, mods);
+      };
+
+      // Rolls on a rollable table, choosing items by weight. As with
+      // Roll20, an item's value is its name, if that is a number.
+      const tableRoll = (count: number) => {
+        const end = src.indexOf("]", pos);
+        if (end === -1) {
+          fail(`expected "]"`);
+        }
+        const name = src.slice(pos, end);
+        pos = end + 1;
+        const table = _findTable(name, playerid);
+        if (!table) {
+          return fail(`no table named "${name}"`);
+        }
+        const items = _api.findObjs({
+          _type: Roll20Object.TYPES.TABLE_ITEM,
+          _rollabletableid: table.id,
+        });
+        const weights = items.map((item) =>
+          Math.max(0, +item.get("weight") || 0)
+        );
+        const totalWeight = weights.reduce((total, w) => total + w, 0);
+        if (!totalWeight) {
+          fail(`table "${name}" has no weighted items`);
+        }
+
+        const results: DieResult[] = [];
+        for (let i = 0; i < count; i++) {
+          let r = _api.randomInteger(totalWeight);
+          const tableidx = weights.findIndex((w) => (r -= w) <= 0);
+          const item = items[tableidx];
+          const value = parseFloat(item.get("name"));
+          results.push({
+            v: isNaN(value) ? 0 : value,
+            tableidx,
+            tableItem: {
+              name: item.get("name"),
+              avatar: item.get("avatar"),
+              weight: item.get("weight"),
+              id: item.id,
+            },
+          });
+        }
+
+        emit({
+          type: "R",
+          dice: count,
+          sides: totalWeight,
+          table: name,
+          mods: {},
+          results,
+        });
+        return _resultsValue(results, {});
+      };
+
+      const group = () => {
+        const outerRolls = rolls;
+        const outerMath = math;
+        const groupRolls: RollEntry[][] = [];
+        const values: number[] = [];
+        do {
+          pos++;
+          rolls = [];
+          math = "";
+          values.push(expr());
+          flush();
+          groupRolls.push(rolls);
+          skip();
+        } while (src.charAt(pos) === ",");
+        if (src.charAt(pos) !== "}") {
+          fail(`expected "}"`);
+        }
+        pos++;
+        rolls = outerRolls;
+        math = outerMath;
+
+        const mods = readMods(0, true);
+        const results = values.map((v) => ({ v } as DieResult));
+        _applyKeepDrop(results, mods);
+        const groupResultType: RollResultType =
+          mods.success || mods.failure ? "success" : "sum";
+        if (groupResultType === "success") {
+          resultType = "success";
+        }
+        emit({
+          type: "G",
+          rolls: groupRolls,
+          mods,
+          resultType: groupResultType,
+          results,
+        });
+        return _resultsValue(results, mods);
+      };
+
+      const primary = (): number => {
+        skip();
+        const c = src.charAt(pos);
+
+        if (c === "(") {
+          pos++;
+          math += "(";
+          const value = expr();
+          skip();
+          if (src.charAt(pos) !== ")") {
+            fail(`expected ")"`);
+          }
+          pos++;
+          math += ")";
+          return value;
+        }
+
+        if (c === "{") {
+          return group();
+        }
+
+        const fn = src.slice(pos).match(/^([a-z]+)\s*\(/i);
+        if (fn && ROLL_FUNCTIONS[fn[1].toLowerCase()]) {
+          pos += fn[0].length - 1;
+          math += fn[1].toLowerCase();
+          return ROLL_FUNCTIONS[fn[1].toLowerCase()](primary());
+        }
+
+        const count = readNumber();
+        if (peek("t[")) {
+          pos += 2;
+          return tableRoll(
+            typeof count === "undefined" ? 1 : parseInt(count, 10)
+          );
+        }
+        if (peek("d")) {
+          const dice = typeof count === "undefined" ? 1 : parseInt(count, 10);
+          pos++;
+          if (peek("f")) {
+            pos++;
+            return roll(dice, "F");
+          }
+          if (peek("%")) {
+            pos++;
+            return roll(dice, 100);
+          }
+          const sides = readNumber();
+          return typeof sides === "undefined"
+            ? fail("expected number of sides")
+            : roll(dice, parseInt(sides, 10));
+        }
+        if (typeof count === "undefined") {
+          return fail(c ? `unexpected "${c}"` : "unexpected end");
+        }
+        math += count;
+        return parseFloat(count);
+      };
+
+      const unary = (): number => {
+        skip();
+        const c = src.charAt(pos);
+        if (c === "-" || c === "+") {
+          pos++;
+          math += c;
+          return c === "-" ? -unary() : unary();
+        }
+        return primary();
+      };
+
+      const factor = (): number => {
+        const base = unary();
+        skip();
+        if (peek("**")) {
+          pos += 2;
+          math += "**";
+          return Math.pow(base, factor());
+        }
+        return base;
+      };
+
+      const term = (): number => {
+        let value = factor();
+        for (;;) {
+          skip();
+          const c = src.charAt(pos);
+          if (c !== "*" && c !== "/" && c !== "%") {
+            return value;
+          }
+          pos++;
+          math += c;
+          const rhs = factor();
+          value =
+            c === "*" ? value * rhs : c === "/" ? value / rhs : value % rhs;
+        }
+      };
+
+      const expr = (): number => {
+        let value = term();
+        for (;;) {
+          skip();
+          const c = src.charAt(pos);
+          if (c !== "+" && c !== "-") {
+            return value;
+          }
+          pos++;
+          math += c;
+          const rhs = term();
+          value = c === "+" ? value + rhs : value - rhs;
+        }
+      };
+
+      const total = expr();
+      skip();
+      if (pos < src.length) {
+        fail(`unexpected "${src.charAt(pos)}"`);
+      }
+      flush();
+
+      return {
+        type: "V",
+        rolls,
+        resultType,
+        total,
+      };
+    };
+
+    /**
+     * Finds a rollable table by name. Players may only use tables shown to
+     * them (see showplayers); the API and GMs may use any table.
+     *
+     * @param name
+     * @param [playerid]
+     */
+    const _findTable = (name: string, playerid?: string) =>
+      _api
+        .findObjs({ _type: Roll20Object.TYPES.ROLLABLE_TABLE, name })
+        .filter(
+          (table) => !playerid || playerid === "API" || _canSee(playerid, table)
+        )[0] as Roll20Object | undefined;
+
+    /**
+     * Replaces each [[inline roll]] in text with $[[n]], returning the new
+     * text and the inline rolls. Nested inline rolls are rolled first and
+     * their totals substituted into the enclosing expression. A roll that
+     * fails is left as it was written, and described in failures.
+     *
+     * @param text
+     * @param [playerid] - The player rolling; see rollDice().
+     */
+    const _expandInlineRolls = (text: string, playerid?: string) => {
+      const inlinerolls: InlineRoll[] = [];
+      const failures: string[] = [];
+
+      const expand = (str: string, nested: boolean): string => {
+        let out = "";
+        let i = 0;
+        while (i < str.length) {
+          if (str.substr(i, 2) !== "[[") {
+            out += str.charAt(i);
+            i++;
+            continue;
+          }
+          let depth = 2;
+          let j = i + 2;
+          for (; j < str.length && depth > 0; j++) {
+            const c = str.charAt(j);
+            depth += c === "[" ? 1 : c === "]" ? -1 : 0;
+          }
+          if (depth > 0) {
+            return out + str.slice(i);
+          }
+          const expression = expand(str.slice(i + 2, j - 2), true).trim();
+          let results: RollResults;
+          try {
+            results = rollDice(expression, { playerid });
+          } catch (err) {
+            failures.push(`Can't roll [[${expression}]]: ${err.message}`);
+            out += str.slice(i, j);
+            i = j;
+            continue;
+          }
+          const index =
+            inlinerolls.push({
+              expression,
+              results,
+              rollid: util.uuid(),
+              signature: false,
+            }) - 1;
+          out += nested ? `${results.total}` : `$[[${index}]]`;
+          i = j;
+        }
+        return out;
+      };
+
+      return {
+        content: expand(text, false),
+        inlinerolls,
+        failures,
+      };
+    };
+
+    /**
+     * Types of chat message, as found in msg.type.
+     */
+    const CHAT_MESSAGE_TYPES = {
+      GENERAL: "general",
+      ROLL_RESULT: "rollresult",
+      GM_ROLL_RESULT: "gmrollresult",
+      EMOTE: "emote",
+      WHISPER: "whisper",
+      DESC: "desc",
+      DIRECT: "direct",
+      API: "api",
+    } as const;
+
+    type ChatMessageType = Values<typeof CHAT_MESSAGE_TYPES>;
+
+    /**
+     * A reference to a selected object, as found in msg.selected.
+     */
+    type Roll20Selection = {
+      _id: string;
+      _type: Roll20ObjectType;
+    };
+
+    /**
+     * A chat message, as passed to chat:message handlers and sendChat
+     * callbacks.
+     */
+    type Roll20Message = {
+      who: string;
+      playerid: string;
+      type: ChatMessageType;
+      content: string;
+      origRoll?: string;
+      inlinerolls?: InlineRoll[];
+      rolltemplate?: string;
+      target?: string;
+      target_name?: string;
+      selected?: Roll20Selection[];
+    };
+
+    /**
+     * Chat commands that change the type of a message. The leading slash
+     * is omitted.
+     */
+    const CHAT_COMMANDS: Record<string, ChatMessageType> = {
+      w: CHAT_MESSAGE_TYPES.WHISPER,
+      whisper: CHAT_MESSAGE_TYPES.WHISPER,
+      em: CHAT_MESSAGE_TYPES.EMOTE,
+      me: CHAT_MESSAGE_TYPES.EMOTE,
+      desc: CHAT_MESSAGE_TYPES.DESC,
+      direct: CHAT_MESSAGE_TYPES.DIRECT,
+      r: CHAT_MESSAGE_TYPES.ROLL_RESULT,
+      roll: CHAT_MESSAGE_TYPES.ROLL_RESULT,
+      gr: CHAT_MESSAGE_TYPES.GM_ROLL_RESULT,
+      gmroll: CHAT_MESSAGE_TYPES.GM_ROLL_RESULT,
+    };
+
+    /**
+     * Resolves the 'who' of a message from the speakingAs argument of
+     * sendChat(), which may be a plain name, "player|<id>" or
+     * "character|<id>".
+     *
+     * @param speakingAs
+     */
+    const _resolveSpeaker = (speakingAs: string) => {
+      const [kind, id] = speakingAs.split("|");
+      if (typeof id === "undefined") {
+        return speakingAs;
+      }
+      const obj = Roll20Object.pool[id];
+      if (!obj || obj.get("_type") !== kind) {
+        warn(`sendChat: Can't find ${kind} "${id}" to speak as.`);
+        return speakingAs;
+      }
+      return kind === Roll20Object.TYPES.PLAYER
+        ? obj.get("_displayname")
+        : obj.get("name");
+    };
+
+    /**
+     * Resolves a whisper target name to a comma-separated list of player
+     * ids. "gm" is passed through unchanged. Names are matched
+     * case-insensitively. Characters resolve to the players that control
+     * them, with "all" standing for every player.
+     *
+     * @param targetName
+     */
+    const _resolveWhisperTarget = (targetName: string) => {
+      if (targetName.toLowerCase() === "gm") {
+        return "gm";
+      }
+      const [player] = MOCKS.findObjs(
+        { _type: Roll20Object.TYPES.PLAYER, _displayname: targetName },
+        { caseInsensitive: true }
+      );
+      if (player) {
+        return player.id;
+      }
+      const [character] = MOCKS.findObjs(
+        { _type: Roll20Object.TYPES.CHARACTER, name: targetName },
+        { caseInsensitive: true }
+      );
+      if (character) {
+        const controllers = _idList(character.get("controlledby"));
+        return controllers.indexOf("all") > -1
+          ? MOCKS.findObjs({ _type: Roll20Object.TYPES.PLAYER })
+              .map((obj) => obj.id)
+              .join(",")
+          : controllers.join(",");
+      }
+      warn(`sendChat: Can't find whisper target "${targetName}".`);
+      return "";
+    };
+
+    /**
+     * Splits the argument of a /w command into the target name and the
+     * rest of the message. Quoted names may contain spaces.
+     *
+     * @param text
+     */
+    const _splitWhisper = (text: string) => {
+      const quoted = text.match(/^"([^"]*)"\s*([\s\S]*)$/);
+      if (quoted) {
+        return [quoted[1], quoted[2]];
+      }
+      const [, target, rest] = text.match(/^(\S+)\s*([\s\S]*)$/) || [
+        "",
+        text,
+        "",
+      ];
+      return [target, rest];
+    };
+
+    /**
+     * Builds the Roll20 message objects that result from chat text, as the
+     * roll20 chat pipeline would. As in the sandbox, text of several lines
+     * is one message, keeping its newlines; blank text sends none.
+     *
+     * @param speakingAs - As passed to sendChat().
+     * @param text - The chat text.
+     * @param [options.playerid] - The sending player, or "API".
+     * @param [options.selected] - Objects selected by the sending player.
+     */
+    const _buildMessages = (
+      speakingAs: string,
+      text: string,
+      {
+        playerid = "API",
+        selected,
+      }: { playerid?: string; selected?: Roll20Selection[] } = {}
+    ): Roll20Message[] => {
+      const who = _resolveSpeaker(speakingAs);
+      const content = `${text}`;
+      if (content.trim() === "") {
+        return [];
+      }
+      const msg: Roll20Message = {
+        who,
+        playerid,
+        type: CHAT_MESSAGE_TYPES.GENERAL,
+        content,
+      };
+
+      if (content.charAt(0) === "!") {
+        msg.type = CHAT_MESSAGE_TYPES.API;
+      } else if (content.charAt(0) === "/") {
+        const [, command, rest] = content.match(/^\/(\S+)\s*([\s\S]*)$/) || [];
+        const type = CHAT_COMMANDS[command];
+        if (type) {
+          msg.type = type;
+          msg.content = rest;
+        }
+        if (type === CHAT_MESSAGE_TYPES.WHISPER) {
+          const [targetName, whispered] = _splitWhisper(rest);
+          msg.target = _resolveWhisperTarget(targetName);
+          msg.target_name = targetName;
+          msg.content = whispered;
+        } else if (type === CHAT_MESSAGE_TYPES.DESC) {
+          msg.who = "";
+        } else if (
+          type === CHAT_MESSAGE_TYPES.ROLL_RESULT ||
+          type === CHAT_MESSAGE_TYPES.GM_ROLL_RESULT
+        ) {
+          msg.origRoll = rest;
+        }
+      }
+
+      try {
+        if (msg.origRoll) {
+          msg.content = JSON.stringify(rollDice(msg.origRoll, { playerid }));
+          msg.inlinerolls = [];
+        } else {
+          const expanded = _expandInlineRolls(msg.content, playerid);
+          msg.content = expanded.content;
+          msg.inlinerolls = expanded.inlinerolls;
+          expanded.failures.forEach((failure) => error(`sendChat: ${failure}`));
+        }
+      } catch (err) {
+        error(`sendChat: ${err.message}`);
+        msg.inlinerolls = [];
+      }
+
+      const template = msg.content.match(/&\{template:([^}]*)\}/);
+      if (template) {
+        msg.rolltemplate = template[1];
+        msg.content = msg.content.replace(template[0], "").trim();
+      }
+
+      if (selected && msg.type === CHAT_MESSAGE_TYPES.API) {
+        msg.selected = selected;
+      }
+
+      return [msg];
+    };
+
+    /**
+     * Dispatches built messages as chat:message events.
+     *
+     * @param msgs
+     */
+    const _dispatchMessages = (msgs: Roll20Message[]) => {
+      msgs.forEach((msg) => _fireEvent("chat:message", msg));
+    };
+
+    /**
+     * Sends chat as a player, rather than as the API. This is how to mimic
+     * a player typing into the chat window, including api commands made
+     * with tokens selected.
+     *
+     * @param playerId
+     * @param text
+     * @param [selected] - Objects the player has selected.
+     */
+    const _playerChat = (
+      playerId: string,
+      text: string,
+      selected?: Roll20Selection[]
+    ) => {
+      const msgs = _buildMessages(`player|${playerId}`, text, {
+        playerid: playerId,
+        selected,
+      });
+      _dispatchMessages(msgs);
+      return msgs;
+    };
+
+    /**
+     * Default attribute values of the character sheet, used when a
+     * character has no attribute of the requested name. Set them with
+     * _setSheetDefaults().
+     */
+    let _sheetDefaults: Record<string, string | number> = {};
+
+    /**
+     * Registers default attribute values, as a character sheet's html
+     * would provide them. Defaults for repeating fields are keyed as
+     * repeating_<section>_<field>.
+     *
+     * @param defaults
+     */
+    const _setSheetDefaults = (defaults: Record<string, string | number>) => {
+      _sheetDefaults = { ..._sheetDefaults, ...defaults };
+    };
+
+    /**
+     * Splits a repeating attribute name into its section, row and field.
+     * The row may be a row id or a $N row index.
+     *
+     * @param name
+     */
+    const _parseRepeatingName = (name: string) => {
+      const match = name.match(
+        /^repeating_([^_]+)_(-[-\w]{19}|\$\d+|[^_]+)_(.+)$/i
+      );
+      if (!match) {
+        return undefined;
+      }
+      const [, section, rowId, field] = match;
+      return { section, rowId, field };
+    };
+
+    /**
+     * The objects that could match findObjs() attributes, found using the
+     * pool or secondary indexes, in creation order. Returns undefined if
+     * no attribute is indexed, and the whole pool must be searched.
+     *
+     * @param attrs
+     * @param caseInsensitive
+     */
+    const _findCandidates = (
+      attrs: Roll20ObjectSearchKey,
+      caseInsensitive: boolean
+    ) => {
+      let candidates: Record<string, Roll20Object> | undefined;
+      Object.keys(attrs).forEach((key) => {
+        const alias = key.charAt(0) === "_" ? key.slice(1) : `_${key}`;
+        let found: Record<string, Roll20Object> | undefined;
+        if ((key === "_id" || key === "id") && !caseInsensitive) {
+          const obj = Roll20Object.pool[attrs[key]];
+          found = obj ? { [obj.id]: obj } : {};
+        } else {
+          [key, alias]
+            .filter(
+              (k) =>
+                Roll20Object.INDEXED_KEYS.indexOf(
+                  k as typeof Roll20Object.INDEXED_KEYS[number]
+                ) > -1
+            )
+            .forEach((k) => {
+              found = {
+                ...(found || {}),
+                ...Roll20Object.indexBucket(k, attrs[key]),
+              };
+            });
+        }
+        if (
+          found &&
+          (!candidates ||
+            Object.keys(found).length < Object.keys(candidates).length)
+        ) {
+          candidates = found;
+        }
+      });
+      if (!candidates) {
+        return undefined;
+      }
+      const found = candidates;
+      return Object.keys(found)
+        .map((id) => found[id])
+        .sort((a, b) => a._sequence - b._sequence);
+    };
+
+    /**
+     * The attribute objects belonging to a character.
+     *
+     * @param characterId
+     */
+    const _characterAttributes = (characterId: string) =>
+      MOCKS.findObjs({
+        _type: Roll20Object.TYPES.ATTRIBUTE,
+        _characterid: characterId,
+      });
+
+    /**
+     * The row ids of a repeating section of a character, in display order.
+     * As with the sandbox, the _reporder_repeating_<section> attribute
+     * orders rows first; other rows follow in the order they were created.
+     *
+     * @param characterId
+     * @param section
+     */
+    const _repeatingRowIds = (characterId: string, section: string) => {
+      const attributes = _characterAttributes(characterId);
+      const rowIds: string[] = [];
+      attributes.forEach((attr) => {
+        const parsed = _parseRepeatingName(attr.get("name"));
+        if (
+          parsed &&
+          parsed.section.toLowerCase() === section.toLowerCase() &&
+          rowIds.indexOf(parsed.rowId) === -1
+        ) {
+          rowIds.push(parsed.rowId);
+        }
+      });
+      const reporder = attributes.find(
+        (attr) =>
+          attr.get("name").toLowerCase() ===
+          `_reporder_repeating_${section}`.toLowerCase()
+      );
+      const ordered = reporder
+        ? `${reporder.get("current")}`
+            .split(",")
+            .filter((rowId) => rowIds.indexOf(rowId) > -1)
+        : [];
+      return [
+        ...ordered,
+        ...rowIds.filter((rowId) => ordered.indexOf(rowId) === -1),
+      ];
+    };
+
+    /**
+     * Finds a character's attribute object by name, ignoring case.
+     * Repeating attributes may be addressed by row index, as in
+     * repeating_<section>_$N_<field>.
+     *
+     * @param characterId
+     * @param name
+     */
+    const _findAttribute = (characterId: string, name: string) => {
+      let attrName = name;
+      const parsed = _parseRepeatingName(name);
+      if (parsed && parsed.rowId.charAt(0) === "$") {
+        const index = parseInt(parsed.rowId.slice(1), 10);
+        const rowId = _repeatingRowIds(characterId, parsed.section)[index];
+        if (!rowId) {
+          return undefined;
+        }
+        attrName = `repeating_${parsed.section}_${rowId}_${parsed.field}`;
+      }
+      return _characterAttributes(characterId).find(
+        (attr) => attr.get("name").toLowerCase() === attrName.toLowerCase()
+      );
+    };
+
+    /**
+     * The sheet default for an attribute name, if any.
+     *
+     * @param name
+     */
+    const _sheetDefault = (name: string) => {
+      const parsed = _parseRepeatingName(name);
+      const key = parsed ? `repeating_${parsed.section}_${parsed.field}` : name;
+      const defaultKey = Object.keys(_sheetDefaults).find(
+        (k) => k.toLowerCase() === key.toLowerCase()
+      );
+      return typeof defaultKey === "undefined"
+        ? undefined
+        : _sheetDefaults[defaultKey];
+    };
+
+    /**
+     * The eventInfo passed to sheet worker event handlers.
+     */
+    type SheetWorkerEventInfo = {
+      sourceAttribute: string;
+      sourceType: "player" | "sheetworker" | "api";
+      triggerName: string;
+      previousValue?: any;
+      newValue?: any;
+      removedInfo?: Record<string, any>;
+    };
+
+    type SheetWorkerHandler = (eventInfo: SheetWorkerEventInfo) => void;
+
+    /**
+     * The functions available to sheet worker scripts, as in the sheet
+     * worker sandbox.
+     */
+    type SheetWorkerApi = {
+      on: (events: string, handler: SheetWorkerHandler) => void;
+      getAttrs: (
+        names: string[],
+        cb: (values: Record<string, any>) => void
+      ) => void;
+      setAttrs: (
+        values: Record<string, any>,
+        options?: { silent?: boolean } | (() => void),
+        cb?: () => void
+      ) => void;
+      getSectionIDs: (section: string, cb: (ids: string[]) => void) => void;
+      generateRowID: () => string;
+      removeRepeatingRow: (rowName: string) => void;
+    };
+
+    /**
+     * Handlers registered by sheet worker scripts, by event name.
+     */
+    const _sheetWorkerHandlers: Record<string, SheetWorkerHandler[]> = {};
+
+    /**
+     * Sheet worker tasks waiting to run, each for a particular character.
+     */
+    const _sheetWorkerQueue: { characterId: string; task: () => void }[] = [];
+
+    /**
+     * The character whose sheet workers are currently running.
+     */
+    let _sheetWorkerCharacterId: string | undefined;
+
+    let _sheetWorkersRunning = false;
+
+    /**
+     * Queues a sheet worker task for a character.
+     *
+     * @param characterId
+     * @param task
+     */
+    const _enqueueSheetWorkerTask = (characterId: string, task: () => void) => {
+      _sheetWorkerQueue.push({ characterId, task });
+    };
+
+    /**
+     * Runs queued sheet worker tasks, including those they queue in turn,
+     * then fires 'sheetWorkerCompleted' once the cascade has settled.
+     */
+    const _runSheetWorkers = () => {
+      if (_sheetWorkersRunning) {
+        return;
+      }
+      _sheetWorkersRunning = true;
+      while (_sheetWorkerQueue.length) {
+        const { characterId, task } = _sheetWorkerQueue.shift()!;
+        _sheetWorkerCharacterId = characterId;
+        try {
+          task();
+        } catch (err) {
+          error(`Sheet worker failed: ${err.toString()}`);
+        }
+      }
+      _sheetWorkerCharacterId = undefined;
+      _sheetWorkersRunning = false;
+      _fireEvent("sheetWorkerCompleted");
+    };
+
+    /**
+     * Queues the sheet worker handlers for a change to an attribute.
+     * Repeating attributes trigger change:repeating_<section>:<field> and
+     * change:repeating_<section>.
+     *
+     * @param attr - The changed attribute.
+     * @param key - "current" or "max".
+     * @param previousValue
+     * @param sourceType
+     */
+    const _triggerSheetWorkers = (
+      attr: Roll20Object,
+      key: string,
+      previousValue: any,
+      sourceType: SheetWorkerEventInfo["sourceType"]
+    ) => {
+      const name = `${attr.get("name")}${key === "max" ? "_max" : ""}`;
+      const parsed = _parseRepeatingName(name);
+      const events = parsed
+        ? [
+            `change:repeating_${parsed.section}:${parsed.field}`,
+            `change:repeating_${parsed.section}`,
+          ]
+        : [`change:${name}`];
+      const eventInfo: SheetWorkerEventInfo = {
+        sourceAttribute: name,
+        sourceType,
+        triggerName: name.toLowerCase(),
+        previousValue,
+        newValue: attr.get(key),
+      };
+      events.forEach((event) =>
+        (_sheetWorkerHandlers[event.toLowerCase()] || []).forEach((handler) =>
+          _enqueueSheetWorkerTask(attr.get("_characterid"), () =>
+            handler({ ...eventInfo })
+          )
+        )
+      );
+    };
+
+    /**
+     * The character the running sheet worker belongs to.
+     */
+    const _sheetWorkerCharacter = () => {
+      if (!_sheetWorkerCharacterId) {
+        throw new Error(
+          `Sheet worker functions may only be called from sheet worker handlers.`
+        );
+      }
+      return _sheetWorkerCharacterId;
+    };
+
+    /**
+     * The functions sheet worker scripts are given.
+     */
+    const _sheetWorkerApi: SheetWorkerApi = {
+      on: (events, handler) => {
+        events
+          .split(/\s+/)
+          .filter((event) => event)
+          .forEach((event) => {
+            const e = event.toLowerCase();
+            _sheetWorkerHandlers[e] = _sheetWorkerHandlers[e] || [];
+            _sheetWorkerHandlers[e].push(handler);
+          });
+      },
+      getAttrs: (names, cb) => {
+        const characterId = _sheetWorkerCharacter();
+        const values: Record<string, any> = {};
+        names.forEach((name) => {
+          const isMax = /_max$/i.test(name);
+          const attr = _findAttribute(
+            characterId,
+            isMax ? name.slice(0, -4) : name
+          );
+          const value = attr
+            ? attr.get(isMax ? "max" : "current")
+            : _sheetDefault(name);
+          if (typeof value !== "undefined") {
+            values[name] = value;
+          }
+        });
+        _enqueueSheetWorkerTask(characterId, () => cb(values));
+      },
+      setAttrs: (values, options, cb) => {
+        const characterId = _sheetWorkerCharacter();
+        const callback = typeof options === "function" ? options : cb;
+        const silent = typeof options === "object" && !!options.silent;
+        Object.keys(values).forEach((name) => {
+          const isMax = /_max$/i.test(name);
+          const key = isMax ? "max" : "current";
+          const attrName = isMax ? name.slice(0, -4) : name;
+          const attr =
+            _findAttribute(characterId, attrName) ||
+            new Roll20Object({
+              type: Roll20Object.TYPES.ATTRIBUTE,
+              characterid: characterId,
+              name: attrName,
+            });
+          const previousValue = attr.get(key);
+          attr.set(key, values[name]);
+          if (!silent && previousValue !== attr.get(key)) {
+            _triggerSheetWorkers(attr, key, previousValue, "sheetworker");
+          }
+        });
+        if (callback) {
+          _enqueueSheetWorkerTask(characterId, callback);
+        }
+      },
+      getSectionIDs: (section, cb) => {
+        const characterId = _sheetWorkerCharacter();
+        const ids = _repeatingRowIds(
+          characterId,
+          section.replace(/^repeating_/i, "")
+        ).map((id) => id.toLowerCase());
+        _enqueueSheetWorkerTask(characterId, () => cb(ids));
+      },
+      generateRowID: () => util.uuid(),
+      removeRepeatingRow: (rowName) => {
+        const characterId = _sheetWorkerCharacter();
+        const prefix = `${rowName}_`.toLowerCase();
+        const removedInfo: Record<string, any> = {};
+        _characterAttributes(characterId)
+          .filter(
+            (attr) => attr.get("name").toLowerCase().indexOf(prefix) === 0
+          )
+          .forEach((attr) => {
+            removedInfo[attr.get("name")] = attr.get("current");
+            attr.remove();
+          });
+        const section = rowName.split("_").slice(0, 2).join("_");
+        (_sheetWorkerHandlers[`remove:${section}`.toLowerCase()] || []).forEach(
+          (handler) =>
+            _enqueueSheetWorkerTask(characterId, () =>
+              handler({
+                sourceAttribute: rowName,
+                sourceType: "sheetworker",
+                triggerName: rowName.toLowerCase(),
+                removedInfo,
+              })
+            )
+        );
+      },
+    };
+
+    /**
+     * Registers a sheet worker script. The script is called immediately
+     * with the sheet worker functions (on, getAttrs, setAttrs, etc.), and
+     * the handlers it registers run when attributes are changed with
+     * setWithWorker() or by other sheet workers.
+     *
+     * @param script
+     */
+    const _registerSheetWorker = (script: (sheet: SheetWorkerApi) => void) => {
+      script(_sheetWorkerApi);
+    };
+
+    /**
+     * Finds values in state that would not survive being persisted as
+     * JSON: functions, undefined, non-finite numbers, cycles and objects
+     * other than plain objects and arrays. Returns a description of each.
+     *
+     * @param value
+     * @param [path]
+     * @param [seen] - Objects already visited, to detect cycles.
+     */
+    const _stateProblems = (
+      value: any,
+      path = "state",
+      seen: any[] = []
+    ): string[] => {
+      if (value === null || typeof value === "string") {
+        return [];
+      }
+      if (typeof value === "boolean") {
+        return [];
+      }
+      if (typeof value === "number") {
+        return isFinite(value) ? [] : [`${path} is ${value}.`];
+      }
+      if (typeof value !== "object") {
+        return [`${path} is a ${typeof value}.`];
+      }
+      if (seen.indexOf(value) > -1) {
+        return [`${path} is a circular reference.`];
+      }
+      const proto = Object.getPrototypeOf(value);
+      if (!Array.isArray(value) && proto !== Object.prototype && proto) {
+        return [`${path} is not a plain object.`];
+      }
+      return Object.keys(value).reduce<string[]>(
+        (problems, key) => [
+          ...problems,
+          ..._stateProblems(value[key], `${path}.${key}`, [...seen, value]),
+        ],
+        []
+      );
+    };
+
+    /**
+     * Checks that state may be persisted, logging an error for each value
+     * that can't be and a warning if it is larger than the sandbox allows.
+     * Returns whether state is persistable.
+     */
+    const _validateState = () => {
+      const problems = _stateProblems(_api.state);
+      problems.forEach((problem) =>
+        error(`State not serializable: ${problem}`)
+      );
+      if (problems.length) {
+        return false;
+      }
+      const size = JSON.stringify(_api.state).length;
+      if (size > cfg.stateSizeLimit) {
+        warn(
+          `State is ${size} characters, over the limit of ${cfg.stateSizeLimit}.`
+        );
+      }
+      return true;
+    };
+
+    /**
+     * A copy of a value without its circular references, which JSON can't
+     * hold. Other values JSON can't hold are left for it to drop.
+     *
+     * @param value
+     * @param [seen] - Objects already visited, to detect cycles.
+     */
+    const _withoutCycles = (value: any, seen: any[] = []): any => {
+      if (value && typeof value.toJSON === "function") {
+        value = value.toJSON();
+      }
+      if (value === null || typeof value !== "object") {
+        return value;
+      }
+      if (seen.indexOf(value) > -1) {
+        return undefined;
+      }
+      if (Array.isArray(value)) {
+        return value.map((item) => _withoutCycles(item, [...seen, value]));
+      }
+      return Object.keys(value).reduce<Record<string, any>>((copy, key) => {
+        copy[key] = _withoutCycles(value[key], [...seen, value]);
+        return copy;
+      }, {});
+    };
+
+    /**
+     * State as the sandbox would persist it, as JSON. Values that can't be
+     * persisted (see _validateState()) are dropped.
+     *
+     * @param [space] - Indentation, as for JSON.stringify().
+     */
+    const _persistedState = (space?: number) =>
+      JSON.stringify(_withoutCycles(_api.state), null, space);
+
+    /**
+     * Loads the fs module outside the sandbox.
+     */
+    const _fs = () => {
+      // @ts-ignore
+      if (_inSandbox() || typeof require !== "function") {
+        throw new Error(`State files are not available in the sandbox.`);
+      }
+      // @ts-ignore
+      return require("fs");
+    };
+
+    /**
+     * Replaces the contents of state, keeping the same object so scripts
+     * holding a reference to it see the change.
+     *
+     * @param contents
+     */
+    const _replaceState = (contents: Record<string, any>) => {
+      const state = _api.state;
+      Object.keys(state).forEach((key) => delete state[key]);
+      Object.keys(contents).forEach((key) => (state[key] = contents[key]));
+    };
+
+    /**
+     * Writes state to a JSON file, without the values that can't be
+     * persisted.
+     *
+     * @param path
+     */
+    const _saveState = (path: string) => {
+      _validateState();
+      _fs().writeFileSync(path, _persistedState(2));
+      info(`State saved to ${path}.`);
+    };
+
+    /**
+     * Replaces state with the contents of a JSON file.
+     *
+     * @param path
+     */
+    const _loadState = (path: string) => {
+      _replaceState(JSON.parse(_fs().readFileSync(path, "utf8")));
+      info(`State loaded from ${path}.`);
+    };
+
+    /**
+     * Simulates a restart of the api sandbox. Handlers and pending timers
+     * are discarded and state is persisted and reloaded, losing anything
+     * JSON can't hold; the object pool is kept. The scripts are then run
+     * again to register their handlers, add events are fired for every
+     * object as the campaign loads, and 'ready' is fired.
+     *
+     * @param scripts - Functions that run each api script.
+     */
+    const _restart = (...scripts: (() => void)[]) => {
+      info(`Restarting sandbox.`);
+      _validateState();
+      _replaceState(JSON.parse(_persistedState()));
+      Object.keys(MOCKS._handlers).forEach(
+        (key) => delete MOCKS._handlers[key]
+      );
+      scheduler.clear();
+
+      scripts.forEach((script) => script());
+      MOCKS.getAllObjs().forEach((obj) =>
+        _fireEvent(`add:${obj.get("_type")}`, obj)
+      );
+      _fireEvent("ready");
+    };
+
+    type FixtureObject = Record<string, any>;
+
+    /**
+     * A campaign, as exported to JSON, for populating the object pool.
+     * Objects may give their ids as _id or id; attributes, abilities,
+     * table items and cards are nested in their parents. Players flagged
+     * with gm: true are GMs. Decks hold their cards, in order, unless they
+     * give a _currentDeck.
+     */
+    type CampaignFixture = {
+      campaign?: FixtureObject;
+      players?: (FixtureObject & { gm?: boolean })[];
+      pages?: FixtureObject[];
+      graphics?: FixtureObject[];
+      texts?: FixtureObject[];
+      paths?: FixtureObject[];
+      characters?: (FixtureObject & {
+        attributes?: FixtureObject[];
+        abilities?: FixtureObject[];
+      })[];
+      handouts?: FixtureObject[];
+      macros?: FixtureObject[];
+      tables?: (FixtureObject & { items?: FixtureObject[] })[];
+      decks?: (FixtureObject & { cards?: FixtureObject[] })[];
+      jukeboxtracks?: FixtureObject[];
+      custfx?: FixtureObject[];
+    };
+
+    /**
+     * Properties that refer to other objects, checked when importing a
+     * campaign. Lists may hold several comma-separated ids, or "all".
+     */
+    const OBJECT_REFERENCES: {
+      types: string[];
+      key: string;
+      target: string;
+      list?: boolean;
+    }[] = [
+      {
+        types: ["attribute", "ability"],
+        key: "_characterid",
+        target: "character",
+      },
+      { types: ["graphic"], key: "represents", target: "character" },
+      { types: ["graphic", "text", "path"], key: "_pageid", target: "page" },
+      {
+        types: ["tableitem"],
+        key: "_rollabletableid",
+        target: "rollabletable",
+      },
+      { types: ["card"], key: "_deckid", target: "deck" },
+      { types: ["macro"], key: "_playerid", target: "player" },
+      { types: ["hand"], key: "_parentid", target: "player" },
+      { types: ["campaign"], key: "playerpageid", target: "page" },
+      {
+        types: ["character", "handout", "graphic", "text", "path"],
+        key: "controlledby",
+        target: "player",
+        list: true,
+      },
+      {
+        types: ["character", "handout"],
+        key: "inplayerjournals",
+        target: "player",
+        list: true,
+      },
+    ];
+
+    /**
+     * Describes each reference from the objects to an object that isn't in
+     * the pool, or is of the wrong type.
+     *
+     * @param objs
+     */
+    const _danglingReferences = (objs: Roll20Object[]) => {
+      const problems: string[] = [];
+      objs.forEach((obj) => {
+        const type = obj.get("_type");
+        OBJECT_REFERENCES.filter(
+          ({ types }) => types.indexOf(type) > -1
+        ).forEach(({ key, target, list }) => {
+          const value = obj.get(key);
+          if (!value) {
+            return;
+          }
+          const ids = list ? `${value}`.split(",") : [`${value}`];
+          ids
+            .filter((id) => id && id !== "all")
+            .forEach((id) => {
+              const referenced = Roll20Object.pool[id];
+              if (!referenced || referenced.get("_type") !== target) {
+                problems.push(
+                  `${type} ${obj.id}: ${key} refers to missing ${target} "${id}".`
+                );
+              }
+            });
+        });
+      });
+      return problems;
+    };
+
+    /**
+     * Populates the object pool and the Campaign() singleton from a
+     * campaign fixture, then checks references between objects. Each
+     * dangling reference is warned about and returned in problems.
+     *
+     * @param fixture - A CampaignFixture, or its JSON.
+     */
+    const _importCampaign = (fixture: CampaignFixture | JSONString) => {
+      const doc: CampaignFixture =
+        typeof fixture === "string" ? JSON.parse(fixture) : fixture;
+      const objects: Roll20Object[] = [];
+
+      const create = (type: string, props: FixtureObject) => {
+        const obj = new Roll20Object({
+          ...props,
+          type,
+        } as Roll20ObjectInitializer);
+        objects.push(obj);
+        return obj;
+      };
+
+      (doc.players || []).forEach(({ gm, ...props }) => {
+        const player = create("player", props);
+        if (gm) {
+          _setAsGM(player.id);
+        }
+      });
+      (doc.pages || []).forEach((props) => create("page", props));
+
+      if (doc.campaign) {
+        if (MOCKS._campaign) {
+          MOCKS._campaign.set(doc.campaign);
+        } else {
+          MOCKS._campaign = create("campaign", doc.campaign);
+        }
+      }
+
+      (doc.characters || []).forEach(({ attributes, abilities, ...props }) => {
+        const character = create("character", props);
+        (attributes || []).forEach((attr) =>
+          create("attribute", { characterid: character.id, ...attr })
+        );
+        (abilities || []).forEach((ability) =>
+          create("ability", { characterid: character.id, ...ability })
+        );
+      });
+      (doc.handouts || []).forEach((props) => create("handout", props));
+      (doc.macros || []).forEach((props) => create("macro", props));
+      (doc.tables || []).forEach(({ items, ...props }) => {
+        const table = create("rollabletable", props);
+        (items || []).forEach((item) =>
+          create("tableitem", { rollabletableid: table.id, ...item })
+        );
+      });
+      (doc.decks || []).forEach(({ cards, ...props }) => {
+        const deck = create("deck", props);
+        const ids = (cards || []).map(
+          (card) => create("card", { deckid: deck.id, ...card }).id
+        );
+        if (!deck.get("_currentDeck")) {
+          deck.set("_currentDeck", ids.join(","));
+        }
+      });
+      (doc.graphics || []).forEach((props) => create("graphic", props));
+      (doc.texts || []).forEach((props) => create("text", props));
+      (doc.paths || []).forEach((props) => create("path", props));
+      (doc.jukeboxtracks || []).forEach((props) =>
+        create("jukeboxtrack", props)
+      );
+      (doc.custfx || []).forEach((props) => create("custfx", props));
+
+      const problems = _danglingReferences(
+        MOCKS._campaign ? [...objects, MOCKS._campaign] : objects
+      );
+      problems.forEach((problem) => warn(`_importCampaign: ${problem}`));
+      info(`_importCampaign: Imported ${objects.length} objects.`);
+
+      return { objects, problems };
+    };
+
+    /**
+     * A plain-object copy of the world: every object in the pool by id,
+     * the campaign and state.
+     */
+    type WorldSnapshot = {
+      campaign?: Record<string, any>;
+      objects: Record<string, Record<string, any>>;
+      state: Record<string, any>;
+    };
+
+    /**
+     * A difference between two world snapshots.
+     */
+    type WorldChange = {
+      id: string;
+      type: string;
+      change: "added" | "removed" | "changed";
+      property?: string;
+      before?: any;
+      after?: any;
+    };
+
+    /**
+     * Copies a JSON-compatible value with the keys of every object sorted,
+     * so it serializes the same way every time.
+     *
+     * @param value
+     */
+    const _sortKeys = (value: any): any => {
+      if (Array.isArray(value)) {
+        return value.map(_sortKeys);
+      }
+      if (value && typeof value === "object") {
+        return Object.keys(value)
+          .sort()
+          .reduce<Record<string, any>>((sorted, key) => {
+            sorted[key] = _sortKeys(value[key]);
+            return sorted;
+          }, {});
+      }
+      return value;
+    };
+
+    /**
+     * Takes a snapshot of the world. The campaign is kept apart from the
+     * other objects, and state is as the sandbox would persist it.
+     */
+    const _snapshotWorld = (): WorldSnapshot => {
+      const objects: Record<string, Record<string, any>> = {};
+      MOCKS.getAllObjs()
+        .filter((obj) => obj !== MOCKS._campaign)
+        .forEach((obj) => (objects[obj.id] = obj.toJSON()));
+      return _sortKeys({
+        campaign: MOCKS._campaign ? MOCKS._campaign.toJSON() : undefined,
+        objects,
+        state: JSON.parse(_persistedState()),
+      });
+    };
+
+    /**
+     * Serializes the world, or a snapshot of it, as stable, sorted JSON
+     * suitable for golden files.
+     *
+     * @param [snapshot]
+     */
+    const _serializeWorld = (snapshot: WorldSnapshot = _snapshotWorld()) =>
+      JSON.stringify(_sortKeys(snapshot), null, 2);
+
+    /**
+     * Lists the differences between two world snapshots (or their
+     * serializations), by object id and property. State is compared by its
+     * top-level keys, under the id "state".
+     *
+     * @param before
+     * @param after
+     */
+    const _diffWorlds = (
+      before: WorldSnapshot | JSONString,
+      after: WorldSnapshot | JSONString
+    ) => {
+      const parse = (snapshot: WorldSnapshot | JSONString): WorldSnapshot =>
+        typeof snapshot === "string" ? JSON.parse(snapshot) : snapshot;
+      const a = parse(before);
+      const b = parse(after);
+      const changes: WorldChange[] = [];
+
+      const byId = (snapshot: WorldSnapshot) => {
+        const all: Record<string, Record<string, any>> = {
+          ...snapshot.objects,
+        };
+        if (snapshot.campaign) {
+          all[snapshot.campaign._id] = snapshot.campaign;
+        }
+        all.state = { _type: "state", ...snapshot.state };
+        return all;
+      };
+
+      const beforeObjs = byId(a);
+      const afterObjs = byId(b);
+      const ids = Object.keys({ ...beforeObjs, ...afterObjs }).sort();
+
+      ids.forEach((id) => {
+        const was = beforeObjs[id];
+        const is = afterObjs[id];
+        if (!was || !is) {
+          changes.push({
+            id,
+            type: (was || is)._type,
+            change: was ? "removed" : "added",
+          });
+          return;
+        }
+        Object.keys({ ...was, ...is })
+          .sort()
+          .forEach((property) => {
+            if (
+              JSON.stringify(_sortKeys(was[property])) !==
+              JSON.stringify(_sortKeys(is[property]))
+            ) {
+              changes.push({
+                id,
+                type: is._type,
+                change: "changed",
+                property,
+                before: was[property],
+                after: is[property],
+              });
+            }
+          });
+      });
+      return changes;
+    };
+
+    /**
+     * Empties the world without firing any events: the object pool,
+     * handlers, the campaign, state, the GM, sheet workers and defaults,
+     * the jukebox, the effects timeline, recordings, and pending timers,
+     * with the virtual clock back at 0. A seeded instance is reseeded, so
+     * it generates the same ids and rolls again.
+     */
+    const _reset = () => {
+      Object.keys(Roll20Object.pool).forEach(
+        (id) => delete Roll20Object.pool[id]
+      );
+      Roll20Object.clearIndexes();
+      Object.keys(MOCKS._handlers).forEach(
+        (key) => delete MOCKS._handlers[key]
+      );
+      MOCKS._campaign = (undefined as unknown) as Roll20Object;
+      _replaceState({});
+      _GMs = [];
+      _sheetDefaults = {};
+      Object.keys(_sheetWorkerHandlers).forEach(
+        (key) => delete _sheetWorkerHandlers[key]
+      );
+      _sheetWorkerQueue.length = 0;
+      _sheetWorkerCharacterId = undefined;
+      _sheetWorkersRunning = false;
+      _playlist = undefined;
+      _timeline.length = 0;
+      _stopRecording();
+      scheduler.reset();
+      if (typeof cfg.seed !== "undefined") {
+        util.seed(cfg.seed);
+      }
+    };
+
+    /**
+     * Replaces the world with a snapshot of one, without firing any
+     * events. Object ids are kept.
+     *
+     * @param snapshot - A WorldSnapshot, or its serialization.
+     */
+    const _loadWorld = (snapshot: WorldSnapshot | JSONString) => {
+      const { campaign, objects, state } =
+        typeof snapshot === "string"
+          ? (JSON.parse(snapshot) as WorldSnapshot)
+          : snapshot;
+      _reset();
+      _loading = true;
+      try {
+        Object.keys(objects).forEach(
+          (id) => new Roll20Object(objects[id] as Roll20ObjectInitializer)
+        );
+        if (campaign) {
+          MOCKS._campaign = new Roll20Object(
+            campaign as Roll20ObjectInitializer
+          );
+        }
+      } finally {
+        _loading = false;
+      }
+      _replaceState(JSON.parse(JSON.stringify(state)));
+    };
+
+    /**
+     * Creates a new library instance, with the same configuration, whose
+     * world is a copy of this one's: its objects, campaign, state, GM and
+     * sheet defaults. Handlers and sheet workers are not copied, as they
+     * belong to the scripts that registered them.
+     */
+    const _fork = () => {
+      const fork = library(cfg);
+      fork._loadWorld(_snapshotWorld());
+      _GMs.forEach((id) => fork._setAsGM(id));
+      fork._setSheetDefaults(_sheetDefaults);
+      return fork;
+    };
+
+    /**
+     * Layers whose objects only GMs can see.
+     */
+    const GM_LAYERS = ["gmlayer", "walls"];
+
+    /**
+     * Types of object that are on a page.
+     */
+    const MAP_TYPES: string[] = [
+      Roll20Object.TYPES.GRAPHIC,
+      Roll20Object.TYPES.TEXT,
+      Roll20Object.TYPES.PATH,
+    ];
+
+    /**
+     * The ids in a comma-separated list, as in controlledby,
+     * inplayerjournals and the card lists of decks and hands.
+     *
+     * @param value
+     */
+    const _idList = (value: any) =>
+      `${value || ""}`
+        .split(",")
+        .map((id) => id.trim())
+        .filter((id) => id);
+
+    /**
+     * Whether a comma-separated list of player ids includes a player,
+     * either by id or as "all".
+     *
+     * @param value
+     * @param playerId
+     */
+    const _listIncludes = (value: any, playerId: string) => {
+      const ids = _idList(value);
+      return ids.indexOf("all") > -1 || ids.indexOf(playerId) > -1;
+    };
+
+    /**
+     * Whether a player may control an object. GMs control everything.
+     * Tokens are also controlled by whoever controls the character they
+     * represent.
+     *
+     * @param playerId
+     * @param obj
+     */
+    const _canControl = (playerId: string, obj: Roll20Object): boolean => {
+      if (_api.playerIsGM(playerId)) {
+        return true;
+      }
+      switch (obj.get("_type")) {
+        case Roll20Object.TYPES.PLAYER:
+          return obj.id === playerId;
+        case Roll20Object.TYPES.MACRO:
+          return obj.get("_playerid") === playerId;
+        case Roll20Object.TYPES.HAND:
+          return obj.get("_parentid") === playerId;
+        case Roll20Object.TYPES.ATTRIBUTE:
+        case Roll20Object.TYPES.ABILITY: {
+          const character = _api.getObj(
+            Roll20Object.TYPES.CHARACTER,
+            obj.get("_characterid")
+          );
+          return !!character && _canControl(playerId, character);
+        }
+        case Roll20Object.TYPES.GRAPHIC: {
+          const character = _api.getObj(
+            Roll20Object.TYPES.CHARACTER,
+            obj.get("represents")
+          );
+          return (
+            _listIncludes(obj.get("controlledby"), playerId) ||
+            (!!character && _canControl(playerId, character))
+          );
+        }
+        case Roll20Object.TYPES.CHARACTER:
+        case Roll20Object.TYPES.HANDOUT:
+        case Roll20Object.TYPES.TEXT:
+        case Roll20Object.TYPES.PATH:
+          return _listIncludes(obj.get("controlledby"), playerId);
+        default:
+          return false;
+      }
+    };
+
+    /**
+     * Whether a player can see an object. GMs see everything. Players only
+     * see graphics, texts and paths on their page (see _playerPageId()),
+     * and otherwise see what they control. Characters and handouts must be
+     * in the player's journal, objects on the GM and walls layers are
+     * hidden, and tables and decks may be hidden from players.
+     *
+     * @param playerId
+     * @param obj
+     */
+    const _canSee = (playerId: string, obj: Roll20Object): boolean => {
+      if (_api.playerIsGM(playerId)) {
+        return true;
+      }
+      if (
+        MAP_TYPES.indexOf(obj.get("_type")) > -1 &&
+        obj.get("_pageid") !== _playerPageId(playerId)
+      ) {
+        return false;
+      }
+      if (_canControl(playerId, obj)) {
+        return true;
+      }
+      switch (obj.get("_type")) {
+        case Roll20Object.TYPES.CHARACTER:
+        case Roll20Object.TYPES.HANDOUT:
+          return _listIncludes(obj.get("inplayerjournals"), playerId);
+        case Roll20Object.TYPES.ATTRIBUTE:
+        case Roll20Object.TYPES.ABILITY: {
+          const character = Roll20Object.pool[obj.get("_characterid")];
+          return !!character && _canSee(playerId, character);
+        }
+        case Roll20Object.TYPES.GRAPHIC:
+        case Roll20Object.TYPES.TEXT:
+        case Roll20Object.TYPES.PATH:
+          return GM_LAYERS.indexOf(obj.get("layer")) === -1;
+        case Roll20Object.TYPES.MACRO:
+          return _listIncludes(obj.get("visibleto"), playerId);
+        case Roll20Object.TYPES.ROLLABLE_TABLE:
+        case Roll20Object.TYPES.DECK:
+          return !!obj.get("showplayers");
+        case Roll20Object.TYPES.TABLE_ITEM: {
+          const table = Roll20Object.pool[obj.get("_rollabletableid")];
+          return !!table && _canSee(playerId, table);
+        }
+        case Roll20Object.TYPES.CARD: {
+          const deck = Roll20Object.pool[obj.get("_deckid")];
+          return !!deck && _canSee(playerId, deck);
+        }
+        default:
+          return true;
+      }
+    };
+
+    /**
+     * Whether a player can see a chat message. Whispers are seen by their
+     * targets, and GM rolls only by GMs; GMs see every message, and
+     * players see what they sent.
+     *
+     * @param playerId
+     * @param msg
+     */
+    const _canSeeMessage = (playerId: string, msg: Roll20Message) => {
+      if (msg.playerid === playerId || _api.playerIsGM(playerId)) {
+        return true;
+      }
+      if (msg.type === CHAT_MESSAGE_TYPES.WHISPER) {
+        return _idList(msg.target).indexOf(playerId) > -1;
+      }
+      return msg.type !== CHAT_MESSAGE_TYPES.GM_ROLL_RESULT;
+    };
+
+    /**
+     * One player's point of view of the world: what they can see and
+     * control, and which chat messages they would see.
+     *
+     * @param playerId
+     */
+    const _playerView = (playerId: string) => {
+      const ofType = (type?: string) =>
+        type ? MOCKS.findObjs({ _type: type }) : MOCKS.getAllObjs();
+      return {
+        isGM: () => _api.playerIsGM(playerId),
+        /**
+         * The id of the page the player sees.
+         */
+        page: () => _playerPageId(playerId),
+        canSee: (obj: Roll20Object) => _canSee(playerId, obj),
+        canControl: (obj: Roll20Object) => _canControl(playerId, obj),
+        canSeeMessage: (msg: Roll20Message) => _canSeeMessage(playerId, msg),
+        /**
+         * The objects, optionally of one type, that the player can see.
+         */
+        visible: (type?: string) =>
+          ofType(type).filter((obj) => _canSee(playerId, obj)),
+        /**
+         * The objects, optionally of one type, that the player controls.
+         */
+        controlled: (type?: string) =>
+          ofType(type).filter((obj) => _canControl(playerId, obj)),
+        /**
+         * The messages, such as those from _record(), the player would see.
+         */
+        chat: (messages: Roll20Message[]) =>
+          messages.filter((msg) => _canSeeMessage(playerId, msg)),
+      };
+    };
+
+    type CommandOption = {
+      description?: string;
+      /**
+       * Whether the option is a flag, which takes no value.
+       */
+      flag?: boolean;
+    };
+
+    type CommandContext = {
+      /**
+       * The command's name, without the "!".
+       */
+      command: string;
+      /**
+       * Arguments that aren't options, unquoted.
+       */
+      args: string[];
+      /**
+       * Options given as --key value, --key|value, or --flag (true).
+       */
+      options: Record<string, string | true>;
+      /**
+       * The selected objects, if any.
+       */
+      selected: Roll20Object[];
+      playerId: string;
+      msg: Roll20Message;
+      /**
+       * Whispers a reply to the player who sent the command.
+       */
+      reply: (text: string) => void;
+    };
+
+    type CommandDefinition = {
+      /**
+       * The command's name, without the "!".
+       */
+      name: string;
+      description?: string;
+      options?: Record<string, CommandOption>;
+      /**
+       * Only GMs may use the command.
+       */
+      gmOnly?: boolean;
+      /**
+       * Tokens must be selected, and the player must control them all.
+       */
+      controlSelected?: boolean;
+      handler: (context: CommandContext) => void;
+    };
+
+    /**
+     * Splits an api message into words. Quotes at the start of a word, or
+     * of an option's value as in --key|"some value", group words, and are
+     * removed. Other quotes, as in don't, are kept.
+     *
+     * @param content
+     */
+    const _commandWords = (content: string) => {
+      const words: string[] = [];
+      let word: string | undefined;
+      for (let i = 0; i < content.length; i++) {
+        const char = content.charAt(i);
+        if (/\s/.test(char)) {
+          if (typeof word !== "undefined") {
+            words.push(word);
+          }
+          word = undefined;
+        } else if (
+          (char === '"' || char === "'") &&
+          (!word || word.charAt(word.length - 1) === "|")
+        ) {
+          const end = content.indexOf(char, i + 1);
+          const close = end === -1 ? content.length : end;
+          word = (word || "") + content.slice(i + 1, close);
+          i = close;
+        } else {
+          word = (word || "") + char;
+        }
+      }
+      if (typeof word !== "undefined") {
+        words.push(word);
+      }
+      return words;
+    };
+
+    /**
+     * Parses the content of an api message into the command, its
+     * arguments and options. Inline rolls are replaced by their totals.
+     * Undeclared options take a value unless followed by another option.
+     * --help, or -h, is a flag, giving options.help.
+     *
+     * @param msg
+     * @param [declared] - Declared options of the command.
+     */
+    const parseCommand = (
+      msg: Pick<Roll20Message, "content" | "inlinerolls">,
+      declared: Record<string, CommandOption> = {}
+    ) => {
+      const content = msg.content.replace(
+        /\$\[\[(\d+)\]\]/g,
+        (match, index) => {
+          const roll = (msg.inlinerolls || [])[+index];
+          return roll ? `${roll.results.total}` : match;
+        }
+      );
+      const [first, ...words] = _commandWords(content);
+      const args: string[] = [];
+      const options: Record<string, string | true> = {};
+
+      for (let i = 0; i < words.length; i++) {
+        if (words[i] === "-h") {
+          options.help = true;
+          continue;
+        }
+        const option = words[i].match(/^--([^|]+)(?:\|([\s\S]*))?$/);
+        if (!option) {
+          args.push(words[i]);
+          continue;
+        }
+        const [, key, value] = option;
+        if (typeof value !== "undefined") {
+          options[key] = value;
+        } else if (
+          key !== "help" &&
+          !(declared[key] && declared[key].flag) &&
+          i + 1 < words.length &&
+          words[i + 1].indexOf("--") !== 0
+        ) {
+          options[key] = words[++i];
+        } else {
+          options[key] = true;
+        }
+      }
+
+      return { command: (first || "").replace(/^!/, ""), args, options };
+    };
+
+    /**
+     * Generates the --help text of a command.
+     *
+     * @param definition
+     */
+    const _commandHelp = ({
+      name,
+      description,
+      options = {},
+      gmOnly,
+      controlSelected,
+    }: CommandDefinition) =>
+      [
+        `!${name}${description ? `: ${description}` : ""}`,
+        ...Object.keys(options).map(
+          (key) =>
+            `--${key}${options[key].flag ? "" : " <value>"}${
+              options[key].description ? `: ${options[key].description}` : ""
+            }`
+        ),
+        ...(gmOnly ? ["GM only."] : []),
+        ...(controlSelected ? ["Select tokens you control."] : []),
+      ].join("<br>");
+
+    /**
+     * Creates a registry of chat commands, handling api messages of the
+     * form !command args --option value. Commands may be restricted to
+     * GMs, or to players controlling the selected tokens. Replies, errors
+     * and !command --help are whispered to the player.
+     *
+     * @param [speakingAs] - Who replies are sent as.
+     */
+    const createCommandRegistry = ({
+      speakingAs = "API",
+    }: { speakingAs?: string } = {}) => {
+      const definitions: Record<string, CommandDefinition> = {};
+
+      const whisper = (msg: Roll20Message, text: string) => {
+        const player = _api.getObj(Roll20Object.TYPES.PLAYER, msg.playerid);
+        const name = player ? player.get("_displayname") : msg.who;
+        _api.sendChat(speakingAs, `/w "${name}" ${text}`);
+      };
+
+      const handle = (msg: Roll20Message) => {
+        if (msg.type !== CHAT_MESSAGE_TYPES.API) {
+          return;
+        }
+        const { command } = parseCommand(msg);
+        const definition = definitions[command.toLowerCase()];
+        if (!definition) {
+          return;
+        }
+        const { args, options } = parseCommand(msg, definition.options);
+        if (options.help === true) {
+          whisper(msg, _commandHelp(definition));
+          return;
+        }
+
+        const selected = (msg.selected || [])
+          .map(({ _type, _id }) => _api.getObj(_type, _id))
+          .filter((obj): obj is Roll20Object => !!obj);
+        if (definition.gmOnly && !_api.playerIsGM(msg.playerid)) {
+          whisper(msg, `!${definition.name} may only be used by the GM.`);
+          return;
+        }
+        if (
+          definition.controlSelected &&
+          (!selected.length ||
+            !selected.every((obj) => _canControl(msg.playerid, obj)))
+        ) {
+          whisper(
+            msg,
+            `!${definition.name} needs selected tokens that you control.`
+          );
+          return;
+        }
+
+        try {
+          definition.handler({
+            command: definition.name,
+            args,
+            options,
+            selected,
+            playerId: msg.playerid,
+            msg,
+            reply: (text) => whisper(msg, text),
+          });
+        } catch (err) {
+          error(`!${definition.name}: ${err.message}`);
+          whisper(msg, `!${definition.name} failed: ${err.message}`);
+        }
+      };
+
+      _api.on("chat:message", handle);
+
+      return {
+        /**
+         * Registers a command, replacing any of the same name. Command
+         * names are case-insensitive.
+         *
+         * @param definition
+         */
+        register: (definition: CommandDefinition) => {
+          definitions[definition.name.toLowerCase()] = definition;
+        },
+        /**
+         * The help text of a registered command.
+         *
+         * @param name
+         */
+        help: (name: string) => {
+          const definition = definitions[name.toLowerCase()];
+          return definition ? _commandHelp(definition) : undefined;
+        },
+      };
+    };
+
+    type CardLocationType = "deck" | "discard" | "hand" | "graphic" | "drawn";
+
+    /**
+     * Where a card is, as returned by cardInfo().
+     */
+    type CardInfo = {
+      type: CardLocationType;
+      cardid: string;
+      deckid: string;
+      /**
+       * The card's position in the deck, discard pile or hand.
+       */
+      index?: number;
+      playerid?: string;
+      /**
+       * The id of the graphic of a card played to the table.
+       */
+      id?: string;
+      pageid?: string;
+    };
+
+    /**
+     * The hand of a player, if they have one.
+     *
+     * @param playerId
+     */
+    const _handOf = (playerId: string) =>
+      MOCKS.findObjs({
+        _type: Roll20Object.TYPES.HAND,
+        _parentid: playerId,
+      })[0] as Roll20Object | undefined;
+
+    /**
+     * Where a card is: in its deck or discard pile, in a player's hand,
+     * played to the table, or drawn but not yet given or played.
+     *
+     * @param card
+     */
+    const _cardInfo = (card: Roll20Object): CardInfo => {
+      const info = { cardid: card.id, deckid: card.get("_deckid") };
+      const deck = Roll20Object.pool[info.deckid];
+      if (deck) {
+        const deckIndex = _idList(deck.get("_currentDeck")).indexOf(card.id);
+        if (deckIndex > -1) {
+          return { ...info, type: "deck", index: deckIndex };
+        }
+        const discardIndex = _idList(deck.get("_discardPile")).indexOf(card.id);
+        if (discardIndex > -1) {
+          return { ...info, type: "discard", index: discardIndex };
+        }
+      }
+      const hands = MOCKS.findObjs({ _type: Roll20Object.TYPES.HAND });
+      for (let i = 0; i < hands.length; i++) {
+        const index = _idList(hands[i].get("currentHand")).indexOf(card.id);
+        if (index > -1) {
+          return {
+            ...info,
+            type: "hand",
+            index,
+            playerid: hands[i].get("_parentid"),
+          };
+        }
+      }
+      const [graphic] = MOCKS.findObjs({
+        _type: Roll20Object.TYPES.GRAPHIC,
+        _cardid: card.id,
+      });
+      if (graphic) {
+        return {
+          ...info,
+          type: "graphic",
+          id: graphic.id,
+          pageid: graphic.get("_pageid"),
+        };
+      }
+      return { ...info, type: "drawn" };
+    };
+
+    /**
+     * Takes a card from wherever it is, leaving it drawn. Cards on the
+     * table are removed from it.
+     *
+     * @param card
+     */
+    const _takeCard = (card: Roll20Object) => {
+      const info = _cardInfo(card);
+      const without = (obj: Roll20Object, key: string) =>
+        obj.set(
+          key,
+          _idList(obj.get(key))
+            .filter((id) => id !== card.id)
+            .join(",")
+        );
+      if (info.type === "deck" || info.type === "discard") {
+        without(
+          Roll20Object.pool[info.deckid],
+          info.type === "deck" ? "_currentDeck" : "_discardPile"
+        );
+      } else if (info.type === "hand") {
+        without(
+          _handOf(info.playerid as string) as Roll20Object,
+          "currentHand"
+        );
+      } else if (info.type === "graphic") {
+        Roll20Object.pool[info.id as string].remove();
+      }
+      return info;
+    };
+
+    /**
+     * An entry of the Campaign's turnorder. Custom entries have the id
+     * "-1"; on advancing past one, its formula (such as "+1") is added to
+     * its pr.
+     */
+    type TurnOrderEntry = {
+      id: string;
+      pr: number | string;
+      custom: string;
+      _pageid?: string;
+      formula?: string;
+    };
+
+    /**
+     * The id of custom turn order entries.
+     */
+    const CUSTOM_TURN_ID = "-1";
+
+    /**
+     * Reads and writes the Campaign's turnorder. Changes are written with
+     * set(), so change:campaign:turnorder fires with the previous order.
+     * Tokens must be graphics on the player page.
+     */
+    const turnOrder = (() => {
+      /**
+       * The entries of the turn order, current first. A turn order that
+       * isn't a JSON array, as scripts may write, is logged and treated as
+       * empty.
+       */
+      const get = (): TurnOrderEntry[] => {
+        const json = _api.Campaign().get("turnorder");
+        let entries: unknown;
+        try {
+          entries = json ? JSON.parse(json) : [];
+        } catch (err) {
+          error(`Campaign turnorder is not JSON: ${err.message}`);
+          return [];
+        }
+        if (!Array.isArray(entries)) {
+          error(`Campaign turnorder is not an array.`);
+          return [];
+        }
+        return entries;
+      };
+
+      /**
+       * Replaces the turn order.
+       *
+       * @param entries
+       */
+      const set = (entries: TurnOrderEntry[]) => {
+        _api.Campaign().set("turnorder", JSON.stringify(entries));
+      };
+
+      /**
+       * The entry whose turn it is, if any.
+       */
+      const current = () => get()[0] as TurnOrderEntry | undefined;
+
+      /**
+       * Describes each entry that isn't a custom entry or a graphic on the
+       * player page.
+       *
+       * @param [entries]
+       */
+      const validate = (entries = get()) => {
+        const pageId = _api.Campaign().get("playerpageid");
+        const problems: string[] = [];
+        entries.forEach(({ id }) => {
+          if (id === CUSTOM_TURN_ID) {
+            return;
+          }
+          const graphic = _api.getObj(Roll20Object.TYPES.GRAPHIC, id);
+          if (!graphic) {
+            problems.push(`Turn order refers to missing graphic "${id}".`);
+          } else if (graphic.get("_pageid") !== pageId) {
+            problems.push(`Graphic "${id}" is not on the player page.`);
+          }
+        });
+        return problems;
+      };
+
+      /**
+       * Adds a token at the end of the turn order, replacing any entry it
+       * already has. Returns false, adding nothing, if the token isn't a
+       * graphic on the player page.
+       *
+       * @param id - The graphic's id.
+       * @param pr - Its initiative.
+       */
+      const add = (id: string, pr: number | string) => {
+        const [problem] = validate([{ id, pr, custom: "" }]);
+        if (problem) {
+          error(problem);
+          return false;
+        }
+        set([
+          ...get().filter((entry) => entry.id !== id),
+          {
+            id,
+            pr,
+            custom: "",
+            _pageid: _api
+              .getObj(Roll20Object.TYPES.GRAPHIC, id)
+              ?.get("_pageid"),
+          },
+        ]);
+        return true;
+      };
+
+      /**
+       * Adds a custom entry at the end of the turn order.
+       *
+       * @param custom - The entry's text.
+       * @param pr
+       * @param [formula] - Added to pr on advancing past the entry.
+       */
+      const addCustom = (
+        custom: string,
+        pr: number | string,
+        formula?: string
+      ) => {
+        set([
+          ...get(),
+          {
+            id: CUSTOM_TURN_ID,
+            pr,
+            custom,
+            ...(formula ? { formula } : {}),
+          },
+        ]);
+      };
+
+      /**
+       * Adds a custom entry counting rounds, starting at 1, which is
+       * incremented each time the turn order advances past it.
+       *
+       * @param [custom] - The entry's text.
+       */
+      const addRound = (custom = "Round") => addCustom(custom, 1, "+1");
+
+      /**
+       * The current round, as counted by an entry added with addRound().
+       *
+       * @param [custom] - The entry's text.
+       */
+      const round = (custom = "Round") => {
+        const entry = get().filter(
+          (entry) => entry.id === CUSTOM_TURN_ID && entry.custom === custom
+        )[0];
+        return entry ? +entry.pr : undefined;
+      };
+
+      /**
+       * Removes the entries of a token, or the custom entries with a given
+       * text.
+       *
+       * @param idOrCustom
+       */
+      const remove = (idOrCustom: string) =>
+        set(
+          get().filter(
+            (entry) =>
+              entry.id !== idOrCustom &&
+              !(entry.id === CUSTOM_TURN_ID && entry.custom === idOrCustom)
+          )
+        );
+
+      /**
+       * Sorts the turn order by pr, numerically. Entries whose pr isn't a
+       * number go last; the order is otherwise kept.
+       *
+       * @param [order]
+       */
+      const sort = (order: "asc" | "desc" = "desc") => {
+        const sign = order === "asc" ? 1 : -1;
+        const key = (entry: TurnOrderEntry) =>
+          isNaN(parseFloat(`${entry.pr}`)) ? undefined : +entry.pr;
+        set(
+          get()
+            .map((entry, index) => ({ entry, index }))
+            .sort((a, b) => {
+              const [prA, prB] = [key(a.entry), key(b.entry)];
+              if (prA === prB) {
+                return a.index - b.index;
+              }
+              if (typeof prA === "undefined") {
+                return 1;
+              }
+              if (typeof prB === "undefined") {
+                return -1;
+              }
+              return sign * (prA - prB);
+            })
+            .map(({ entry }) => entry)
+        );
+      };
+
+      /**
+       * Ends the current turn, moving its entry to the end and applying its
+       * formula. Returns the entry whose turn it now is.
+       */
+      const next = () => {
+        const [first, ...rest] = get();
+        if (!first) {
+          return undefined;
+        }
+        if (first.formula) {
+          first.pr = +first.pr + parseFloat(first.formula);
+        }
+        set([...rest, first]);
+        return current();
+      };
+
+      /**
+       * Empties the turn order.
+       */
+      const clear = () => set([]);
+
+      return {
+        get,
+        set,
+        current,
+        validate,
+        add,
+        addCustom,
+        addRound,
+        round,
+        remove,
+        sort,
+        next,
+        clear,
+      };
+    })();
+
+    /**
+     * Pixels per grid unit of a page at a snapping_increment of 1.
+     */
+    const PIXELS_PER_UNIT = 70;
+
+    /**
+     * A position on a page, in pixels, as in graphic.left and graphic.top.
+     */
+    type MapPoint = { left: number; top: number };
+
+    /**
+     * The page a player sees: their entry in the Campaign's
+     * playerspecificpages, if any, or else the player page. GMs see the
+     * page they were last on.
+     *
+     * @param playerId
+     */
+    const _playerPageId = (playerId: string): string => {
+      const campaign = _api.Campaign();
+      const specific = campaign.get("playerspecificpages");
+      if (specific && specific[playerId]) {
+        return specific[playerId];
+      }
+      const player = _api.getObj(Roll20Object.TYPES.PLAYER, playerId);
+      if (_api.playerIsGM(playerId) && player && player.get("_lastpage")) {
+        return player.get("_lastpage");
+      }
+      return campaign.get("playerpageid") || "";
+    };
+
+    /**
+     * Geometry of pages and the graphics on them: grid cells, distances
+     * using the page's scale and diagonal rule, and moving tokens.
+     */
+    const grid = (() => {
+      /**
+       * The page of a graphic, text or path.
+       *
+       * @param obj
+       */
+      const pageOf = (obj: Roll20Object) =>
+        _api.getObj(Roll20Object.TYPES.PAGE, obj.get("_pageid"));
+
+      /**
+       * The size of a page's grid cells, in pixels.
+       *
+       * @param page
+       */
+      const cellSize = (page: Roll20Object) =>
+        PIXELS_PER_UNIT * (+page.get("snapping_increment") || 1);
+
+      // Sandbox objects aren't Roll20Object instances, so objects are
+      // told apart from points by their get().
+      const isObject = (at: Roll20Object | MapPoint): at is Roll20Object =>
+        typeof (at as Roll20Object).get === "function";
+
+      const pointOf = (at: Roll20Object | MapPoint): MapPoint =>
+        isObject(at) ? { left: +at.get("left"), top: +at.get("top") } : at;
+
+      /**
+       * The number of grid cells between two points, counting diagonal
+       * steps by the page's diagonaltype: "foure" (each counts 1),
+       * "threefive" (alternately 1 and 2), "manhattan" (each counts 2) or
+       * "pythagorean" (straight line).
+       *
+       * @param page
+       * @param from
+       * @param to
+       */
+      const cells = (
+        page: Roll20Object,
+        from: Roll20Object | MapPoint,
+        to: Roll20Object | MapPoint
+      ) => {
+        const [a, b] = [pointOf(from), pointOf(to)];
+        const size = cellSize(page);
+        const dx = Math.abs(b.left - a.left) / size;
+        const dy = Math.abs(b.top - a.top) / size;
+        const [long, short] = dx > dy ? [dx, dy] : [dy, dx];
+        switch (page.get("diagonaltype")) {
+          case "pythagorean":
+            return Math.sqrt(dx * dx + dy * dy);
+          case "manhattan":
+            return dx + dy;
+          case "threefive":
+            return long + Math.floor(short / 2);
+          default:
+            return long;
+        }
+      };
+
+      /**
+       * The distance between two points or objects on a page, in the
+       * page's scale_units. Objects give their own page.
+       *
+       * @param from
+       * @param to
+       * @param [page]
+       */
+      const distance = (
+        from: Roll20Object | MapPoint,
+        to: Roll20Object | MapPoint,
+        page = [from, to].filter(isObject).map(pageOf)[0]
+      ) => {
+        if (!page) {
+          throw new Error("distance() requires a page.");
+        }
+        return cells(page, from, to) * +page.get("scale_number");
+      };
+
+      /**
+       * Keeps a point within a page.
+       *
+       * @param page
+       * @param point
+       */
+      const clamp = (page: Roll20Object, { left, top }: MapPoint) => ({
+        left: Math.min(Math.max(left, 0), +page.get("width") * PIXELS_PER_UNIT),
+        top: Math.min(Math.max(top, 0), +page.get("height") * PIXELS_PER_UNIT),
+      });
+
+      /**
+       * Moves a graphic to a point, or along waypoints to the last of
+       * them, keeping it on its page. Its lastmove records where it came
+       * from, and the waypoints it passed, as a player's move would.
+       *
+       * @param graphic
+       * @param points
+       */
+      const moveTo = (graphic: Roll20Object, ...points: MapPoint[]) => {
+        const page = pageOf(graphic);
+        const path = [pointOf(graphic), ...points].map((point) =>
+          page ? clamp(page, point) : point
+        );
+        const { left, top } = path.pop() as MapPoint;
+        graphic.set({
+          left,
+          top,
+          lastmove: path.map((point) => `${point.left},${point.top}`).join(","),
+        });
+        return graphic;
+      };
+
+      /**
+       * Moves a graphic by a number of grid cells.
+       *
+       * @param graphic
+       * @param dx - Cells right.
+       * @param dy - Cells down.
+       */
+      const moveBy = (graphic: Roll20Object, dx: number, dy: number) => {
+        const page = pageOf(graphic);
+        const size = page ? cellSize(page) : PIXELS_PER_UNIT;
+        const { left, top } = pointOf(graphic);
+        return moveTo(graphic, {
+          left: left + dx * size,
+          top: top + dy * size,
+        });
+      };
+
+      return {
+        pageOf,
+        cellSize,
+        cells,
+        distance,
+        moveTo,
+        moveBy,
+      };
+    })();
+
+    /**
+     * Simulates a player dragging a token along waypoints, snapping its
+     * final position to the grid as Roll20 does. Returns false, moving
+     * nothing, if the player can't control the token.
+     *
+     * @param playerId
+     * @param graphic
+     * @param points
+     */
+    const _dragToken = (
+      playerId: string,
+      graphic: Roll20Object,
+      ...points: MapPoint[]
+    ) => {
+      if (!_canControl(playerId, graphic)) {
+        error(`Player ${playerId} can't move graphic ${graphic.id}.`);
+        return false;
+      }
+      const page = grid.pageOf(graphic);
+      const last = points.pop();
+      if (page && last) {
+        const size = grid.cellSize(page);
+        const snap = (value: number, extent: number) =>
+          Math.round((value - extent / 2) / size) * size + extent / 2;
+        points.push({
+          left: snap(last.left, +graphic.get("width")),
+          top: snap(last.top, +graphic.get("height")),
+        });
+      } else if (last) {
+        points.push(last);
+      }
+      grid.moveTo(graphic, ...points);
+      return true;
+    };
+
+    /**
+     * The number of straight segments each curve is divided into.
+     */
+    const CURVE_STEPS = 8;
+
+    /**
+     * A straight line between two points on a page.
+     */
+    type PathSegment = { from: MapPoint; to: MapPoint };
+
+    /**
+     * Geometry of path objects, on their page: their segments, with curves
+     * divided into straight lines, bounding boxes, and intersections with
+     * walls.
+     */
+    const paths = (() => {
+      /**
+       * The commands of a path's _path.
+       *
+       * @param path
+       */
+      const commands = (path: Roll20Object): PathCommand[] =>
+        JSON.parse(path.get("_path") || "[]");
+
+      /**
+       * The points of a path's _path, as drawn, in its own coordinates.
+       *
+       * @param path
+       */
+      const localLines = (path: Roll20Object) => {
+        const lines: MapPoint[][] = [];
+        let at: MapPoint = { left: 0, top: 0 };
+        commands(path).forEach(([name, ...args]) => {
+          const point = (i: number) => ({ left: args[i], top: args[i + 1] });
+          if (name === "M") {
+            at = point(0);
+            lines.push([at]);
+            return;
+          }
+          const line = lines[lines.length - 1];
+          const controls =
+            name === "L"
+              ? []
+              : name === "Q"
+              ? [point(0)]
+              : [point(0), point(2)];
+          const end = point(args.length - 2);
+          if (!controls.length) {
+            line.push(end);
+          }
+          for (let step = 1; controls.length && step <= CURVE_STEPS; step++) {
+            // De Casteljau's algorithm.
+            const t = step / CURVE_STEPS;
+            let points = [at, ...controls, end];
+            while (points.length > 1) {
+              points = points.slice(1).map((p, i) => ({
+                left: points[i].left + (p.left - points[i].left) * t,
+                top: points[i].top + (p.top - points[i].top) * t,
+              }));
+            }
+            line.push(points[0]);
+          }
+          at = end;
+        });
+        return lines;
+      };
+
+      /**
+       * The straight segments of a path, on its page. As in Roll20, the
+       * centre of the _path's points is at the path's left and top, and it
+       * is scaled and then rotated about that point.
+       *
+       * @param path
+       */
+      const segments = (path: Roll20Object): PathSegment[] => {
+        const lines = localLines(path);
+        const all = ([] as MapPoint[]).concat(...lines);
+        const lefts = all.map((p) => p.left);
+        const tops = all.map((p) => p.top);
+        const centre = {
+          left: (Math.min(...lefts) + Math.max(...lefts)) / 2,
+          top: (Math.min(...tops) + Math.max(...tops)) / 2,
+        };
+        const angle = ((+path.get("rotation") || 0) * Math.PI) / 180;
+        const toPage = ({ left, top }: MapPoint) => {
+          const x = (left - centre.left) * +path.get("scaleX");
+          const y = (top - centre.top) * +path.get("scaleY");
+          return {
+            left: +path.get("left") + x * Math.cos(angle) - y * Math.sin(angle),
+            top: +path.get("top") + x * Math.sin(angle) + y * Math.cos(angle),
+          };
+        };
+        const result: PathSegment[] = [];
+        lines.forEach((line) =>
+          line
+            .slice(1)
+            .forEach((to, i) =>
+              result.push({ from: toPage(line[i]), to: toPage(to) })
+            )
+        );
+        return result;
+      };
+
+      /**
+       * The bounding box of a path, on its page, or undefined if it has no
+       * segments.
+       *
+       * @param path
+       */
+      const bounds = (path: Roll20Object) => {
+        const points = ([] as MapPoint[]).concat(
+          ...segments(path).map(({ from, to }) => [from, to])
+        );
+        if (!points.length) {
+          return undefined;
+        }
+        const lefts = points.map((p) => p.left);
+        const tops = points.map((p) => p.top);
+        return {
+          left: Math.min(...lefts),
+          top: Math.min(...tops),
+          right: Math.max(...lefts),
+          bottom: Math.max(...tops),
+        };
+      };
+
+      /**
+       * Whether a path is a wall (on the walls layer, blocking sight),
+       * rather than drawn on the map, objects or GM layer.
+       *
+       * @param path
+       */
+      const isWall = (path: Roll20Object) => path.get("layer") === "walls";
+
+      /**
+       * Whether two segments meet, including touching at an end.
+       *
+       * @param a
+       * @param b
+       */
+      const crosses = (a: PathSegment, b: PathSegment) => {
+        const side = (p: MapPoint, q: MapPoint, r: MapPoint) =>
+          Math.sign(
+            (q.left - p.left) * (r.top - p.top) -
+              (q.top - p.top) * (r.left - p.left)
+          );
+        const within = (p: MapPoint, q: MapPoint, r: MapPoint) =>
+          Math.min(p.left, q.left) <= r.left &&
+          r.left <= Math.max(p.left, q.left) &&
+          Math.min(p.top, q.top) <= r.top &&
+          r.top <= Math.max(p.top, q.top);
+        const [d1, d2] = [side(b.from, b.to, a.from), side(b.from, b.to, a.to)];
+        const [d3, d4] = [side(a.from, a.to, b.from), side(a.from, a.to, b.to)];
+        if (d1 * d2 < 0 && d3 * d4 < 0) {
+          return true;
+        }
+        return (
+          (d1 === 0 && within(b.from, b.to, a.from)) ||
+          (d2 === 0 && within(b.from, b.to, a.to)) ||
+          (d3 === 0 && within(a.from, a.to, b.from)) ||
+          (d4 === 0 && within(a.from, a.to, b.to))
+        );
+      };
+
+      /**
+       * The walls of a page that a line between two points crosses.
+       *
+       * @param pageId
+       * @param from
+       * @param to
+       */
+      const wallsBetween = (pageId: string, from: MapPoint, to: MapPoint) =>
+        _api
+          .findObjs({ _type: Roll20Object.TYPES.PATH, _pageid: pageId })
+          .filter(
+            (path) =>
+              isWall(path) &&
+              segments(path).some((segment) => crosses(segment, { from, to }))
+          );
+
+      /**
+       * Whether there is a line of sight between two points on a page,
+       * uncrossed by walls.
+       *
+       * @param pageId
+       * @param from
+       * @param to
+       */
+      const lineOfSight = (pageId: string, from: MapPoint, to: MapPoint) =>
+        !wallsBetween(pageId, from, to).length;
+
+      return {
+        commands,
+        segments,
+        bounds,
+        isWall,
+        crosses,
+        wallsBetween,
+        lineOfSight,
+      };
+    })();
+
+    /**
+     * How a playlist plays its tracks: "a" all together, "o" one at a time
+     * in order, or "s" one at a time shuffled.
+     */
+    type PlaylistMode = "a" | "o" | "s";
+
+    /**
+     * A playlist, as found in the Campaign's _jukeboxfolder: its id, name,
+     * mode and track ids.
+     */
+    type JukeboxPlaylist = {
+      id: string;
+      n: string;
+      s: PlaylistMode;
+      i: string[];
+    };
+
+    /**
+     * The playlist that is playing. When playing one track at a time, the
+     * id of the current track and those still to play.
+     */
+    let _playlist:
+      | { id: string; current?: string; queue: string[] }
+      | undefined;
+
+    /**
+     * The playlists of the Campaign's _jukeboxfolder, which also holds
+     * loose track ids. A folder that isn't a JSON array is logged and
+     * treated as empty.
+     */
+    const _jukeboxPlaylists = (): JukeboxPlaylist[] => {
+      const json = _api.Campaign().get("_jukeboxfolder");
+      let folder: unknown;
+      try {
+        folder = json ? JSON.parse(json) : [];
+      } catch (err) {
+        error(`Campaign _jukeboxfolder is not JSON: ${err.message}`);
+        return [];
+      }
+      if (!Array.isArray(folder)) {
+        error(`Campaign _jukeboxfolder is not an array.`);
+        return [];
+      }
+      return folder.filter(
+        (item): item is JukeboxPlaylist => !!item && typeof item === "object"
+      );
+    };
+
+    /**
+     * Starts or stops a jukebox track, firing change:jukeboxtrack:playing.
+     *
+     * @param trackId
+     * @param playing
+     */
+    const _playTrack = (trackId: string, playing: boolean) => {
+      const track = _api.getObj(Roll20Object.TYPES.JUKEBOX_TRACK, trackId);
+      if (!track) {
+        warn(`Jukebox track "${trackId}" not found.`);
+        return;
+      }
+      track.set(playing ? { playing } : { playing, softstop: false });
+    };
+
+    /**
+     * Starts the next track of the playlist being played one track at a
+     * time, if any remain.
+     */
+    const _playNextTrack = () => {
+      if (!_playlist) {
+        return;
+      }
+      _playlist.current = _playlist.queue.shift();
+      if (_playlist.current) {
+        _playTrack(_playlist.current, true);
+      } else {
+        _playlist = undefined;
+      }
+    };
+
+    /**
+     * Simulates a jukebox track reaching its end. Looping tracks play on,
+     * unless soft-stopped. Otherwise the track stops, and a playlist
+     * playing one track at a time moves on to its next track. A playlist
+     * playing its tracks together ends when none of them is playing.
+     *
+     * @param trackId
+     */
+    const _endJukeboxTrack = (trackId: string) => {
+      const track = _api.getObj(Roll20Object.TYPES.JUKEBOX_TRACK, trackId);
+      if (!track || !track.get("playing")) {
+        return;
+      }
+      if (track.get("loop") && !track.get("softstop")) {
+        return;
+      }
+      _playTrack(trackId, false);
+      if (_playlist && _playlist.current === trackId) {
+        _playNextTrack();
+      } else if (_playlist) {
+        const playlistId = _playlist.id;
+        const playlist = _jukeboxPlaylists().filter(
+          ({ id }) => id === playlistId
+        )[0];
+        const playing = (playlist ? playlist.i : []).some((id) => {
+          const other = _api.getObj(Roll20Object.TYPES.JUKEBOX_TRACK, id);
+          return !!other && !!other.get("playing");
+        });
+        if (!playing) {
+          _playlist = undefined;
+        }
+      }
+    };
+
+    /**
+     * What the jukebox is playing: the id of the playlist started with
+     * playJukeboxPlaylist(), if any, and the tracks that are playing.
+     */
+    const _nowPlaying = () => ({
+      playlist: _playlist && _playlist.id,
+      tracks: MOCKS.findObjs({
+        _type: Roll20Object.TYPES.JUKEBOX_TRACK,
+        playing: true,
+      }),
+    });
+
+    /**
+     * A visual effect, as recorded in the effects timeline at the virtual
+     * time it happened.
+     */
+    type EffectEntry = { time: number; pageId: string } & (
+      | { kind: "fx"; fx: string; left: number; top: number }
+      | { kind: "fxBetween"; fx: string; start: Roll20Coord; end: Roll20Coord }
+      | {
+          kind: "fxDefinition";
+          definition: Record<string, any>;
+          left: number;
+          top: number;
+        }
+      | {
+          kind: "ping";
+          left: number;
+          top: number;
+          playerId?: string;
+          moveAll: boolean;
+          /**
+           * The ids of the players who saw the ping.
+           */
+          visibleTo: string[];
+        }
+      | { kind: "zorder"; id: string; layer: string; to: "front" | "back" }
+    );
+
+    type EffectKind = EffectEntry["kind"];
+
+    /**
+     * The effects timeline: fx, pings and changes in z-order.
+     */
+    const _timeline: EffectEntry[] = [];
+
+    /**
+     * The recorded effects, optionally of one kind, in the order they
+     * happened.
+     *
+     * @param [kind]
+     */
+    const _effects = <K extends EffectKind>(kind?: K) =>
+      _timeline.filter((entry) => !kind || entry.kind === kind) as Extract<
+        EffectEntry,
+        { kind: K }
+      >[];
+
+    /**
+     * Records an effect at the current virtual time.
+     *
+     * @param entry
+     */
+    const _recordEffect = (entry: DistributiveOmit<EffectEntry, "time">) => {
+      _timeline.push({ ...entry, time: scheduler.now() } as EffectEntry);
+    };
+
+    /**
+     * Whether an fx name is a built-in type and colour, such as
+     * "bomb-fire", or the id of a custfx object.
+     *
+     * @param fx
+     * @param types - The built-in types allowed.
+     */
+    const _isFx = (fx: string, types: Record<string, string>) => {
+      const [type, colour] = `${fx}`.split("-");
+      const values = (obj: Record<string, string>) =>
+        Object.keys(obj).map((key) => obj[key]);
+      return (
+        (values(types).indexOf(type) > -1 &&
+          values(SPAWN_FX_COLORS).indexOf(colour) > -1) ||
+        !!_api.getObj(Roll20Object.TYPES.CUSTOM_FX, fx)
+      );
+    };
+
+    /**
+     * The ids of the graphics, texts and paths of a page, back to front:
+     * those in its _zorder, then any others in the order they were made.
+     * Optionally, only those on one layer.
+     *
+     * @param pageId
+     * @param [layer]
+     */
+    const _zOrder = (pageId: string, layer?: string) => {
+      const page = _api.getObj(Roll20Object.TYPES.PAGE, pageId);
+      const onPage = MOCKS.getAllObjs().filter(
+        (obj) =>
+          MAP_TYPES.indexOf(obj.get("_type")) > -1 &&
+          obj.get("_pageid") === pageId
+      );
+      const ids = onPage.map((obj) => obj.id);
+      const listed = _idList(page ? page.get("_zorder") : "").filter(
+        (id) => ids.indexOf(id) > -1
+      );
+      return [
+        ...listed,
+        ...ids.filter((id) => listed.indexOf(id) === -1),
+      ].filter((id) => !layer || Roll20Object.pool[id].get("layer") === layer);
+    };
+
+    /**
+     * Moves an object to the front or back of its page's _zorder, and so
+     * of its layer.
+     *
+     * @param obj
+     * @param to
+     */
+    const _reorder = (obj: Roll20Object, to: "front" | "back") => {
+      const pageId = obj.get("_pageid");
+      const page = _api.getObj(Roll20Object.TYPES.PAGE, pageId);
+      if (!page) {
+        error(`Can't reorder ${obj.id}; page "${pageId}" not found.`);
+        return;
+      }
+      const others = _zOrder(pageId).filter((id) => id !== obj.id);
+      page.set(
+        "_zorder",
+        (to === "front" ? [...others, obj.id] : [obj.id, ...others]).join(",")
+      );
+      _recordEffect({
+        kind: "zorder",
+        pageId,
+        id: obj.id,
+        layer: obj.get("layer"),
+        to,
+      });
+    };
+
+    /**
+     * 'Normal' types of fx.
+     */
+    const SPAWN_FX_TYPES = {
+      BOMB: "bomb",
+      BUBBLING: "bubbling",
+      BURN: "burn",
+      BURST: "burst",
+      EXPLODE: "explode",
+      GLOW: "glow",
+      MISSLE: "missle",
+      NOVA: "nova",
+    } as const;
+
+    type SpawnFXType = Values<typeof SPAWN_FX_TYPES>;
+
+    /**
+     * Types of fx that work between points.
+     */
+    const SPAWN_FX_BETWEEN_TYPES = {
+      ...SPAWN_FX_TYPES,
+      BEAM: "beam",
+      BREATH: "breath",
+      SPLATTER: "splatter",
+    } as const;
+
+    type SpawnFXBetweenType = Values<typeof SPAWN_FX_BETWEEN_TYPES>;
+
+    /**
+     * Colors of fx.
+     */
+    const SPAWN_FX_COLORS = {
+      ACID: "acid",
+      BLOOD: "blood",
+      CHARM: "charm",
+      DEATH: "death",
+      FIRE: "fire",
+      FROST: "frost",
+      HOLY: "holy",
+      MAGIC: "magic",
+      SLIME: "slime",
+      SMOKE: "smoke",
+      WATER: "water",
+    } as const;
+
+    type SpawnFxColor = Values<typeof SPAWN_FX_COLORS>;
+
+    type FxBetweenNames = Permuted<SpawnFXBetweenType, SpawnFxColor>;
+    type FxNames = Permuted<SpawnFXType, SpawnFxColor>;
+
+    /**
+     * The id of a custfx object. Intersecting string with {} keeps the
+     * built-in fx names suggested alongside it.
+     */
+    type CustomFxId = string & {};
+
+    const MOCKS = {
+      /**
+       * The underscore library. Outside of the roll20api sandbox, we
+       * attempt to load the actual library, but provide a very basic
+       * stand in as a last-ditch effort.
+       */
+      _: (() => {
+        // @ts-ignore
+        var require = require;
+        if (typeof require === "function") {
+          try {
+            const underscore = require("underscore");
+            return underscore;
+          } catch (err) {
+            warn(
+              "Failed to require underscore library. Will use basic stub as mock if necessary."
+            );
+          }
+        }
+        return new Proxy(
+          {
+            map: <T, U = any>(
+              arr: T[],
+              cb: (item: T, index: number, array: T[]) => U[]
+            ) => arr.map(cb),
+            toJSON: () => "",
+            toString: () => "",
+          },
+          {
+            get: (obj: any, key) => {
+              if (key in obj) {
+                return obj[key];
+              }
+              error(`"${key.toString()}" field of Underscore not mocked!`);
+            },
+          }
+        );
+      })(),
+
+      /**
+       * Mocked version of the roll20Api sandbox state.
        */
-      state: {},
+      state: {} as Record<string, any>,
 
       /**
        * Mocked version of Campaign(), which returns the appropriate Campaign
@@ -741,7 +5412,8 @@ const basiliskasterisk__roll20Api = ((cfg) => {
       },
 
       /**
-       * Mocked version of createObj().
+       * Mocked version of createObj(). Throws if a value fails the
+       * type's VALUE_CHECKS, such as a path with an invalid _path.
        *
        * @param type
        * @param obj
@@ -754,50 +5426,46 @@ const basiliskasterisk__roll20Api = ((cfg) => {
           ...obj,
           type,
         } as Roll20ObjectInitializer;
+        const checks = Roll20Object.VALUE_CHECKS[type] || {};
+        const problems = Object.keys(checks).reduce<string[]>((all, key) => {
+          const given = obj as Record<string, any>;
+          const alias = key.charAt(0) === "_" ? key.slice(1) : `_${key}`;
+          const value = key in given ? given[key] : given[alias];
+          // Read-only properties must be given on creation.
+          return typeof value === "undefined" && key.charAt(0) !== "_"
+            ? all
+            : [...all, ...checks[key](value)];
+        }, []);
+        if (problems.length) {
+          throw new Error(`Can't create ${type}: ${problems.join(" ")}`);
+        }
         return new Roll20Object(initializer);
       },
       /**
        * Mocked version of filterObjs().
+       *
+       * @param cb - Called with each object; return true to include it.
        */
-      filterObjs: (cb: (obj: Roll20ObjectSearchKey) => boolean) => {
+      filterObjs: (cb: (obj: Roll20Object) => boolean) => {
         return Object.keys(Roll20Object.pool)
           .map((key) => Roll20Object.pool[key])
-          .filter(cb);
+          .filter((obj) => cb(obj));
       },
       /**
-       * Mocked version of findObjs().
+       * Mocked version of findObjs(). Lookups by id, or by an indexed key
+       * (see Roll20Object.INDEXED_KEYS), don't scan the whole pool.
+       *
+       * @param attrs - Properties the objects must have.
+       * @param [options]
        */
-      findObjs: (
-        obj: Roll20ObjectSearchKey,
-        { caseInsensitive = false }: { caseInsensitive: boolean }
-      ) => {
-        // @ts-ignore
-        const filterObjs = filterObjs || MOCKS.filterObjs;
-        return filterObjs((testObj: Roll20ObjectSearchKey) => {
-          let found = true;
-          Object.keys(testObj).forEach((key) => {
-            const testValue = testObj[key];
-            const objValue = obj[key];
-
-            if (found && caseInsensitive) {
-              if (
-                typeof objValue === "string" ||
-                typeof testValue === "string"
-              ) {
-                if (
-                  testValue.toString().toLowerCase() !=
-                  objValue.toString().toLowerCase()
-                ) {
-                  found = false;
-                }
-              }
-            }
-            if (found && testObj[key] != obj[key]) {
-              found = false;
-            }
-          });
-          return found;
-        });
+      findObjs: (
+        attrs: Roll20ObjectSearchKey,
+        { caseInsensitive = false }: { caseInsensitive?: boolean } = {}
+      ) => {
+        const candidates = _findCandidates(attrs, caseInsensitive);
+        return (candidates || MOCKS.getAllObjs()).filter((obj) =>
+          obj._matches(attrs, caseInsensitive)
+        );
       },
       /**
        * Mocked version of getAllObjs().
@@ -805,7 +5473,9 @@ const basiliskasterisk__roll20Api = ((cfg) => {
       getAllObjs: () =>
         Object.keys(Roll20Object.pool).map((key) => Roll20Object.pool[key]),
       /**
-       * Mocked version of getAttrByName().
+       * Mocked version of getAttrByName(). Falls back to sheet defaults
+       * registered with _setSheetDefaults() when the character has no
+       * such attribute.
        * @param id
        * @param name
        * @param curOrMax
@@ -815,18 +5485,32 @@ const basiliskasterisk__roll20Api = ((cfg) => {
         name: string,
         curOrMax: "current" | "max" = "current"
       ) => {
-        // @ts-ignore
-        const findObjs = findObjs || MOCKS.findObjs;
-        const char = findObjs({ type: "character", id })[0];
-        if (!char) {
+        const char = Roll20Object.pool[id];
+        if (!char || char.get("_type") !== Roll20Object.TYPES.CHARACTER) {
           throw new Error(`Can't find character with id "${id}".`);
         }
-        return char.get(`${name}_${curOrMax}`);
+        const attr = _findAttribute(id, name);
+        if (attr) {
+          return attr.get(curOrMax);
+        }
+        const value = _sheetDefault(name);
+        return curOrMax === "max" && typeof value !== "undefined" ? "" : value;
+      },
+      /**
+       * Mocked version of getObj(). Returns undefined if there is no
+       * object of the type with the id.
+       * @param type
+       * @param id
+       */
+      getObj: (type: string, id: string) => {
+        const obj = Roll20Object.pool[id];
+        return obj && obj.get("_type") === type ? obj : undefined;
       },
       /**
-       * Mocked version of log(), using a basiliskasterisk.util logger.
+       * Mocked version of log(), using a basiliskasterisk.util logger named
+       * "log", so that scripts' logs reach the same sinks as this library's.
        */
-      log: log,
+      log: util.getLogger({ logLevel: cfg.logLevel, name: "log" }).info,
       /**
        * Mocked version of on(). Use _fireEvent to mock events.
        * @param eventName
@@ -865,34 +5549,66 @@ const basiliskasterisk__roll20Api = ((cfg) => {
         MOCKS._handlers["sheetWorkerCompleted"].push(cb);
       },
       /**
-       * Mocked version of playerIsGM(). Unlike the real version, you will have
-       * to call _setAsGM(playerId) to set a player as is the GM.
+       * Mocked version of playerIsGM(). GMs are set with _setAsGM(), or by
+       * importing players flagged with gm: true.
        * @param playerId
        */
-      playerIsGM: (playerId: string) => _GM === playerId,
+      playerIsGM: (playerId: string) => _GMs.indexOf(playerId) > -1,
       /**
-       * Mocked version of playJukeboxPlaylist(). Does nothing.
+       * Mocked version of playJukeboxPlaylist(). Stops the playlist that
+       * is playing, then plays the tracks of a playlist from the
+       * Campaign's _jukeboxfolder, by its mode. Use _endJukeboxTrack() to
+       * simulate tracks ending.
+       * @param playlistId
        */
-      playJukeboxPlaylist: () => {},
+      playJukeboxPlaylist: (playlistId: string) => {
+        const playlist = _jukeboxPlaylists().filter(
+          ({ id }) => id === playlistId
+        )[0];
+        if (!playlist) {
+          error(`Jukebox playlist "${playlistId}" not found.`);
+          return;
+        }
+        MOCKS.stopJukeboxPlaylist();
+        const tracks = playlist.i.slice();
+        _playlist = { id: playlist.id, queue: [] };
+        if (playlist.s === "a") {
+          tracks.forEach((trackId) => _playTrack(trackId, true));
+          return;
+        }
+        if (playlist.s === "s") {
+          for (let i = tracks.length - 1; i > 0; i--) {
+            const j = _api.randomInteger(i + 1) - 1;
+            [tracks[i], tracks[j]] = [tracks[j], tracks[i]];
+          }
+        }
+        _playlist.queue = tracks;
+        _playNextTrack();
+      },
       /**
-       * Mocked, not-as-good version of randomInteger().
+       * Mocked version of randomInteger(), using the seedable PRNG of
+       * basiliskasterisk.util.
        * @param max
        */
-      randomInteger: (max: number) => Math.floor(Math.random() * max) + 1,
+      randomInteger: (max: number) => util.randomInteger(max),
       /**
-       * Mocked version of sendChat().
-       *
-       * TODO: trigger mocked events related to message.
+       * Mocked version of sendChat(). As in the sandbox, messages are
+       * passed to the callback instead of being sent to chat if one is
+       * provided; otherwise they are fired as chat:message events.
        */
       sendChat: (
         speakingAs: string,
-        message: Roll20Message,
+        message: string,
         cb?: (msgs: Roll20Message[]) => void,
         { noarchive = false, use3d = false } = {}
       ) => {
         log(`MOCK sendChat: ${speakingAs}, ${message}`);
-        cb && cb([]);
-        // TODO: force chat events
+        const msgs = _buildMessages(speakingAs, message);
+        if (cb) {
+          scheduler.setTimeout(() => cb(msgs), cfg.latency.sendChat);
+          return;
+        }
+        _dispatchMessages(msgs);
       },
       /**
        * Mocked version of sendPing().
@@ -911,261 +5627,2176 @@ const basiliskasterisk__roll20Api = ((cfg) => {
         playerId?: string,
         moveAll: boolean = false,
         visibleTo?: string | string[]
-      ) => log(`MOCK sendPing: ${left}, ${top}, ${pageId}`),
+      ) =>
+        _recordEffect({
+          kind: "ping",
+          pageId,
+          left,
+          top,
+          playerId,
+          moveAll,
+          visibleTo: visibleTo
+            ? _idList(
+                Array.isArray(visibleTo) ? visibleTo.join(",") : visibleTo
+              )
+            : MOCKS.findObjs({ _type: Roll20Object.TYPES.PLAYER })
+                .map(({ id }) => id)
+                .filter(
+                  (id) => _playerPageId(id) === pageId || MOCKS.playerIsGM(id)
+                ),
+        }),
+      /**
+       * Mocked version of spawnFx(). The fx is recorded in the effects
+       * timeline; see _effects().
+       * @param left
+       * @param top
+       * @param typeColor - A built-in type and colour, or a custfx id.
+       * @param pageId
+       */
+      spawnFx: (
+        left: number,
+        top: number,
+        typeColor: FxNames | CustomFxId,
+        pageId: string
+      ) => {
+        if (!_isFx(typeColor, SPAWN_FX_TYPES)) {
+          error(`spawnFx: Unknown fx "${typeColor}".`);
+          return;
+        }
+        _recordEffect({ kind: "fx", pageId, fx: typeColor, left, top });
+      },
+      /**
+       * Mocked version of spawnFxBetweenPoints(). The fx is recorded in
+       * the effects timeline; see _effects().
+       * @param start
+       * @param end
+       * @param typeColor - A built-in type and colour, or a custfx id.
+       * @param pageId
+       */
+      spawnFxBetweenPoints: (
+        start: Roll20Coord,
+        end: Roll20Coord,
+        typeColor: FxBetweenNames | CustomFxId,
+        pageId: string
+      ) => {
+        if (!_isFx(typeColor, SPAWN_FX_BETWEEN_TYPES)) {
+          error(`spawnFxBetweenPoints: Unknown fx "${typeColor}".`);
+          return;
+        }
+        _recordEffect({ kind: "fxBetween", pageId, fx: typeColor, start, end });
+      },
+      /**
+       * Mocked version of spawnFxWithDefinition(). Definitions are checked
+       * against FX_DEFINITION_PROPERTIES, and the fx recorded in the
+       * effects timeline; see _effects().
+       *
+       * @param left
+       * @param top
+       * @param definition
+       * @param pageId
+       */
+      spawnFxWithDefinition: (
+        left: number,
+        top: number,
+        definition: Record<string, any>,
+        pageId: string
+      ) => {
+        const problems = _fxDefinitionProblems(definition);
+        if (problems.length) {
+          problems.forEach((problem) =>
+            error(`spawnFxWithDefinition: ${problem}`)
+          );
+          return;
+        }
+        _recordEffect({ kind: "fxDefinition", pageId, definition, left, top });
+      },
+      /**
+       * Mocked version of stopJukeboxPlaylist(). Stops the tracks of the
+       * playlist that is playing.
+       */
+      stopJukeboxPlaylist: () => {
+        const playlist = _playlist
+          ? _jukeboxPlaylists().filter(({ id }) => id === _playlist?.id)[0]
+          : undefined;
+        _playlist = undefined;
+        (playlist ? playlist.i : []).forEach((trackId) =>
+          _playTrack(trackId, false)
+        );
+      },
+      /**
+       * Mocked version of toBack(). Moves the object to the back of its
+       * page's _zorder, recording it in the effects timeline.
+       */
+      toBack: (obj: Roll20Object) => _reorder(obj, "back"),
+      /**
+       * Mocked version of toFront(). Moves the object to the front of its
+       * page's _zorder, recording it in the effects timeline.
+       */
+      toFront: (obj: Roll20Object) => _reorder(obj, "front"),
+      /**
+       * Mocked version of cardInfo(). Describes where the cards of a deck,
+       * or a single card, are.
+       * @param options.deckid
+       * @param [options.cardid] - Describe only this card.
+       * @param [options.type] - Describe only cards in this location.
+       */
+      cardInfo: ({
+        deckid,
+        cardid,
+        type,
+      }: {
+        deckid?: string;
+        cardid?: string;
+        type?: CardLocationType;
+      }) =>
+        MOCKS.findObjs({
+          _type: Roll20Object.TYPES.CARD,
+          ...(deckid ? { _deckid: deckid } : {}),
+          ...(cardid ? { _id: cardid } : {}),
+        })
+          .map(_cardInfo)
+          .filter((info) => !type || info.type === type),
+      /**
+       * Mocked version of drawCard(). Draws the top card of a deck, or the
+       * given card if it is in the deck. Returns the card's id, or false.
+       * @param deckId
+       * @param [cardId]
+       */
+      drawCard: (deckId: string, cardId?: string) => {
+        const deck = MOCKS.getObj(Roll20Object.TYPES.DECK, deckId);
+        const ids = deck ? _idList(deck.get("_currentDeck")) : [];
+        const id = cardId || ids[0];
+        if (!deck || ids.indexOf(id) === -1) {
+          return false;
+        }
+        deck.set("_currentDeck", ids.filter((other) => other !== id).join(","));
+        return id;
+      },
+      /**
+       * Mocked version of giveCardToPlayer(). Moves a card, from wherever
+       * it is, to the end of a player's hand.
+       * @param cardId
+       * @param playerId
+       */
+      giveCardToPlayer: (cardId: string, playerId: string) => {
+        const card = MOCKS.getObj(Roll20Object.TYPES.CARD, cardId);
+        if (!card || !MOCKS.getObj(Roll20Object.TYPES.PLAYER, playerId)) {
+          return false;
+        }
+        _takeCard(card);
+        const hand =
+          _handOf(playerId) ||
+          new Roll20Object({
+            type: Roll20Object.TYPES.HAND,
+            _parentid: playerId,
+          } as Roll20ObjectInitializer);
+        hand.set(
+          "currentHand",
+          [..._idList(hand.get("currentHand")), cardId].join(",")
+        );
+        return true;
+      },
+      /**
+       * Mocked version of pickUpCard(). Picks up a card from the table, or
+       * from its discard pile. Returns the card's id, or false.
+       * @param cardId
+       * @param [fromDiscard]
+       */
+      pickUpCard: (cardId: string, fromDiscard = false) => {
+        const card = MOCKS.getObj(Roll20Object.TYPES.CARD, cardId);
+        if (
+          !card ||
+          _cardInfo(card).type !== (fromDiscard ? "discard" : "graphic")
+        ) {
+          return false;
+        }
+        _takeCard(card);
+        return cardId;
+      },
+      /**
+       * Mocked version of playCardToTable(). Moves a card, from wherever it
+       * is, to the table, returning its graphic. Graphics are placed on the
+       * objects layer of the player page unless props say otherwise.
+       * @param cardId
+       * @param [props] - Properties of the graphic.
+       */
+      playCardToTable: (cardId: string, props: Record<string, any> = {}) => {
+        const card = MOCKS.getObj(Roll20Object.TYPES.CARD, cardId);
+        if (!card) {
+          return false;
+        }
+        _takeCard(card);
+        return new Roll20Object({
+          type: Roll20Object.TYPES.GRAPHIC,
+          _subtype: "card",
+          _cardid: cardId,
+          _pageid: _api.Campaign().get("playerpageid") || "",
+          name: card.get("name"),
+          imgsrc: card.get("avatar"),
+          layer: "objects",
+          ...props,
+        } as Roll20ObjectInitializer);
+      },
+      /**
+       * Mocked version of recallCards(). Returns the cards of a deck to the
+       * bottom of it, from hands and the table, or only from one of them.
+       * Without a type, drawn and discarded cards are also returned.
+       * @param deckId
+       * @param [type]
+       */
+      recallCards: (deckId: string, type?: "hand" | "graphic") => {
+        const deck = MOCKS.getObj(Roll20Object.TYPES.DECK, deckId);
+        if (!deck) {
+          return false;
+        }
+        const recalled = MOCKS.findObjs({
+          _type: Roll20Object.TYPES.CARD,
+          _deckid: deckId,
+        }).filter((card) => {
+          const info = _cardInfo(card);
+          return info.type !== "deck" && (!type || info.type === type);
+        });
+        recalled.forEach(_takeCard);
+        deck.set(
+          "_currentDeck",
+          [
+            ..._idList(deck.get("_currentDeck")),
+            ...recalled.map((card) => card.id),
+          ].join(",")
+        );
+        return true;
+      },
+      /**
+       * Mocked version of shuffleDeck(). Shuffles a deck, first returning
+       * its discard pile to it unless discard is false. Cards are put in
+       * deckOrder, if given, with any it doesn't list after them in their
+       * current order.
+       * @param deckId
+       * @param [discard]
+       * @param [deckOrder] - Card ids, top first.
+       */
+      shuffleDeck: (deckId: string, discard = true, deckOrder?: string[]) => {
+        const deck = MOCKS.getObj(Roll20Object.TYPES.DECK, deckId);
+        if (!deck) {
+          return false;
+        }
+        const ids = _idList(deck.get("_currentDeck"));
+        if (discard) {
+          ids.push(..._idList(deck.get("_discardPile")));
+          deck.set("_discardPile", "");
+        }
+        if (deckOrder) {
+          const listed = deckOrder.filter(
+            (id, i) => ids.indexOf(id) > -1 && deckOrder.indexOf(id) === i
+          );
+          const unlisted = ids.filter((id) => deckOrder.indexOf(id) === -1);
+          ids.splice(0, ids.length, ...listed, ...unlisted);
+        } else {
+          for (let i = ids.length - 1; i > 0; i--) {
+            const j = _api.randomInteger(i + 1) - 1;
+            [ids[i], ids[j]] = [ids[j], ids[i]];
+          }
+        }
+        deck.set("_currentDeck", ids.join(","));
+        return true;
+      },
+      /**
+       * Mocked version of takeCardFromPlayer(). Takes a card, by id or
+       * index, or at random, from a player's hand. Returns the card's id,
+       * or false.
+       * @param playerId
+       * @param [options]
+       */
+      takeCardFromPlayer: (
+        playerId: string,
+        { cardid, index }: { cardid?: string; index?: number } = {}
+      ) => {
+        const hand = _handOf(playerId);
+        const ids = hand ? _idList(hand.get("currentHand")) : [];
+        const id =
+          cardid ||
+          ids[
+            typeof index === "undefined"
+              ? _api.randomInteger(ids.length) - 1
+              : index
+          ];
+        if (!hand || ids.indexOf(id) === -1) {
+          return false;
+        }
+        hand.set("currentHand", ids.filter((other) => other !== id).join(","));
+        return id;
+      },
+      /**
+       * Mocked version of setTimeout(), run by the virtual scheduler.
+       */
+      setTimeout: scheduler.setTimeout,
+      /**
+       * Mocked version of clearTimeout().
+       */
+      clearTimeout: scheduler.clearTimeout,
+      /**
+       * Mocked version of setInterval(), run by the virtual scheduler.
+       */
+      setInterval: scheduler.setInterval,
+      /**
+       * Mocked version of clearInterval().
+       */
+      clearInterval: scheduler.clearInterval,
+      _campaign: (undefined as unknown) as Roll20Object,
+      _handlers: {} as Record<string, Function[]>,
+      ...cfg.mocks,
+    };
+
+    /**
+     * Wrapper functions! Functions defined here wrap the Mocked or
+     * real versions of the api function. They take the actual function as
+     * an argument and return a modified version with the same interface as the
+     * original one.
+     */
+    const WRAPPERS = {
+      /**
+       * Wrapper for createObj to add additional error checking and logging.
+       */
+      createObj: (createFn: typeof MOCKS.createObj) => {
+        return ((type, obj) => {
+          log(`Attempting createObj(${type}, ${JSON.stringify(obj)}).`);
+          let newObj;
+          try {
+            newObj = createFn(type, obj);
+          } catch (err) {
+            log(`Failed to createObj: ${err.toString()}`);
+            throw err;
+          }
+          log(
+            `createObj(${type}, ${JSON.stringify(
+              obj
+            )}) returned: ${JSON.stringify(newObj)}.`
+          );
+          return newObj;
+        }) as typeof MOCKS.createObj;
+      },
+      ...cfg.wrappers,
+    };
+
+    type API = typeof MOCKS;
+
+    /**
+     * Timer functions that exist outside the sandbox too, but are mocked
+     * there anyway so the virtual scheduler controls them.
+     */
+    const VIRTUAL_TIME_KEYS: string[] = [
+      "setTimeout",
+      "clearTimeout",
+      "setInterval",
+      "clearInterval",
+    ];
+
+    const _api = {} as API;
+
+    // Roll20's own functions are globals of the sandbox.
+    const topLevelScope = util.getScope();
+    Object.keys(MOCKS).forEach((k) => {
+      const key = k as keyof typeof MOCKS;
+      type M = typeof MOCKS["Campaign"];
+      if (
+        typeof topLevelScope[key] !== "undefined" &&
+        _promoted.indexOf(topLevelScope[key]) === -1 &&
+        (VIRTUAL_TIME_KEYS.indexOf(key) === -1 || _inSandbox())
+      ) {
+        log(`Found Roll20's "${key}". Copying to Roll20Api.`);
+        _api[key] = topLevelScope[key] as typeof MOCKS[typeof key];
+      } else {
+        log(`Roll20 "${key}" not found. Installing mock.`);
+        if (typeof MOCKS[key] === "undefined") {
+          log(`No mock found for "${key}"`);
+        }
+        _api[key] = MOCKS[key];
+        log(`Using mocked "${key}": ${_api[key]?.toString()}.`);
+      }
+
+      if ((WRAPPERS as Record<string, any>)[key]) {
+        log(`Custom wrapper found for "${key}". Applying.`);
+        _api[key] = (WRAPPERS as Record<string, any>)[key](
+          _api[key]
+        ) as typeof MOCKS[typeof key];
+      }
+    });
+
+    return {
+      Roll20Object,
+      OBJECT_TYPES: Roll20Object.TYPES,
+      SPAWN_FX_TYPES,
+      SPAWN_FX_BETWEEN_TYPES,
+      SPAWN_FX_COLORS,
+      CHAT_MESSAGE_TYPES,
+      api: _api,
+      rollDice,
+      parseCommand,
+      createCommandRegistry,
+      scheduler,
+      turnOrder,
+      grid,
+      paths,
+      _promote,
+      _fireEvent,
+      _setAsGM,
+      _playerView,
+      _inSandbox,
+      _playerChat,
+      _dragToken,
+      _endJukeboxTrack,
+      _nowPlaying,
+      _effects,
+      _zOrder,
+      _setSheetDefaults,
+      _registerSheetWorker,
+      _validateState,
+      _saveState,
+      _loadState,
+      _restart,
+      _importCampaign,
+      _snapshotWorld,
+      _serializeWorld,
+      _diffWorlds,
+      _record,
+      _reset,
+      _loadWorld,
+      _fork,
+    } as const;
+  };
+
+  let _instance = undefined as ReturnType<typeof library> | undefined;
+
+  const create = (config?: Partial<typeof defaultConfiguration>) =>
+    library({ ...defaultConfiguration, ...(config || {}) });
+
+  /**
+   * A test, or a suite of them, registered with a harness.
+   */
+  type HarnessTest<W> = {
+    name: string;
+    fn: (world: W) => void;
+  };
+
+  type HarnessSuite<W> = {
+    name: string;
+    tests: HarnessTest<W>[];
+    suites: HarnessSuite<W>[];
+    before: (() => void)[];
+    after: (() => void)[];
+    beforeEach: ((world: W) => void)[];
+    afterEach: ((world: W) => void)[];
+  };
+
+  /**
+   * Creates a test harness. Tests are registered with describe() and it(),
+   * then run with run(). Each test is given a fresh library instance (its
+   * 'world'), created with the given configuration, that records the
+   * events fired and chat sent while the test runs.
+   *
+   * Outside the sandbox, a failing run sets the process exit code. Inside
+   * it, the report is printed to the api console.
+   *
+   * @param [config] - Configuration for each test's library instance.
+   */
+  const createHarness = (config?: Partial<typeof defaultConfiguration>) => {
+    type World = ReturnType<typeof library> &
+      ReturnType<ReturnType<typeof library>["_record"]>;
+    type Roll20Obj = InstanceType<World["Roll20Object"]>;
+
+    const { info, error } = util.getLogger({ name: "TEST" });
+
+    const root: HarnessSuite<World> = {
+      name: "",
+      tests: [],
+      suites: [],
+      before: [],
+      after: [],
+      beforeEach: [],
+      afterEach: [],
+    };
+    let current = root;
+
+    /**
+     * Registers a suite of tests. fn is called immediately to register
+     * the suite's tests, hooks and nested suites.
+     *
+     * @param name
+     * @param fn
+     */
+    const describe = (name: string, fn: () => void) => {
+      const suite: HarnessSuite<World> = {
+        name,
+        tests: [],
+        suites: [],
+        before: [],
+        after: [],
+        beforeEach: [],
+        afterEach: [],
+      };
+      current.suites.push(suite);
+      const parent = current;
+      current = suite;
+      try {
+        fn();
+      } finally {
+        current = parent;
+      }
+    };
+
+    /**
+     * Registers a test in the current suite.
+     *
+     * @param name
+     * @param fn
+     */
+    const it = (name: string, fn: (world: World) => void) => {
+      current.tests.push({ name, fn });
+    };
+
+    const before = (fn: () => void) => current.before.push(fn);
+    const after = (fn: () => void) => current.after.push(fn);
+    const beforeEach = (fn: (world: World) => void) =>
+      current.beforeEach.push(fn);
+    const afterEach = (fn: (world: World) => void) =>
+      current.afterEach.push(fn);
+
+    const fail = (message: string, detail?: string): never => {
+      throw new Error(detail ? `${message} ${detail}` : message);
+    };
+
+    const same = (a: any, b: any) =>
+      a === b || JSON.stringify(a) === JSON.stringify(b);
+
+    const show = (value: any) => {
+      try {
+        return JSON.stringify(value);
+      } catch (err) {
+        return `${value}`;
+      }
+    };
+
+    // Whether a Roll20Object has every property given.
+    const matches = (obj: Roll20Obj, props: Record<string, any>) =>
+      Object.keys(props).every((key) => same(obj.get(key), props[key]));
+
+    // Whether a chat message matches a string (contained in its content),
+    // a regular expression (tested against its content) or properties.
+    const chatMatches = (
+      msg: World["chat"][number],
+      match: string | RegExp | Record<string, any>
+    ) =>
+      typeof match === "string"
+        ? msg.content.indexOf(match) > -1
+        : match instanceof RegExp
+        ? match.test(msg.content)
+        : Object.keys(match).every((key) =>
+            same((msg as Record<string, any>)[key], match[key])
+          );
+
+    const logMatches = (
+      record: LogRecord,
+      level: LogLevelName,
+      match?: string | RegExp
+    ) =>
+      record.levelValue >= util.LOG_LEVELS[level] &&
+      (match === undefined ||
+        (typeof match === "string"
+          ? record.message.indexOf(match) > -1
+          : match.test(record.message)));
+
+    const findAll = (
+      world: World,
+      type: string,
+      props: Record<string, any> = {}
+    ) =>
+      world.api
+        .getAllObjs()
+        .filter((obj) => obj.get("_type") === type && matches(obj, props));
+
+    /**
+     * Assertions. Each throws if it fails, failing the test.
+     */
+    const assert = {
+      ok: (value: any, message = "Expected a truthy value.") => {
+        if (!value) {
+          fail(message, `Got ${show(value)}.`);
+        }
+      },
+      equal: (actual: any, expected: any, message = "Not equal.") => {
+        if (actual !== expected) {
+          fail(message, `Expected ${show(expected)}, got ${show(actual)}.`);
+        }
+      },
+      deepEqual: (actual: any, expected: any, message = "Not equal.") => {
+        if (!same(actual, expected)) {
+          fail(message, `Expected ${show(expected)}, got ${show(actual)}.`);
+        }
+      },
+      throws: (fn: () => void, message = "Expected an error.") => {
+        try {
+          fn();
+        } catch (err) {
+          return err as Error;
+        }
+        return fail(message);
+      },
       /**
-       * Mocked version of spawnFx().
-       * @param left
-       * @param top
-       * @param typeColor
-       * @param pageId
+       * Asserts that a Roll20Object has the given property values.
        */
-      spawnFx: (
-        left: number,
-        top: number,
-        typeColor: FxNames,
-        pageId: string
-      ) => log(`MOCK spawnFx ${left}, ${top}, ${typeColor}`),
+      has: (obj: Roll20Obj, props: Record<string, any>, message?: string) => {
+        Object.keys(props).forEach((key) => {
+          if (!same(obj.get(key), props[key])) {
+            fail(
+              message || `${obj.get("_type")} ${obj.id} has wrong "${key}".`,
+              `Expected ${show(props[key])}, got ${show(obj.get(key))}.`
+            );
+          }
+        });
+      },
       /**
-       * Mocked version of spawnFxBetweenPoints().
-       * @param start
-       * @param end
-       * @param typeColor
-       * @param pageId
+       * Asserts that an object of the type with the given property values
+       * exists in the world, returning the first one.
        */
-      spawnFxBetweenPoints: (
-        start: Roll20Coord,
-        end: Roll20Coord,
-        typeColor: FxBetweenNames,
-        pageId: string
-      ) =>
-        log(
-          `MOCK spawnFxBetweenPoints ${JSON.stringify(start)}, ${JSON.stringify(
-            end
-          )}, ${typeColor}`
-        ),
+      exists: (world: World, type: string, props?: Record<string, any>) =>
+        findAll(world, type, props)[0] ||
+        fail(`No ${type} matching ${show(props || {})} exists.`),
+      notExists: (world: World, type: string, props?: Record<string, any>) => {
+        if (findAll(world, type, props).length) {
+          fail(`A ${type} matching ${show(props || {})} exists.`);
+        }
+      },
       /**
-       * Mocked version of spawnFxWithDefinition().
-       *
-       * @param left
-       * @param top
-       * @param definition
-       * @param pageId
+       * Asserts that a chat message matching a string (found in its
+       * content), regular expression or set of properties was sent,
+       * returning the first one.
        */
-      spawnFxWithDefinition: (
-        left: string,
-        top: string,
-        definition: Record<string, any>,
-        pageId: string
-      ) =>
-        log(
-          `NOT REALLY SPAWNING FX DEFINITION ${left}, ${top}, ${JSON.stringify(
-            definition
-          )}`
+      chatted: (world: World, match: string | RegExp | Record<string, any>) =>
+        world.chat.find((msg) => chatMatches(msg, match)) ||
+        fail(
+          `No chat matching ${show(`${match}`)}.`,
+          `Chat was ${show(world.chat.map((msg) => msg.content))}.`
         ),
+      notChatted: (
+        world: World,
+        match: string | RegExp | Record<string, any>
+      ) => {
+        if (world.chat.some((msg) => chatMatches(msg, match))) {
+          fail(`Chat matching ${show(`${match}`)} was sent.`);
+        }
+      },
       /**
-       * Mocked version of stopJukeboxPlaylist(), which does nothing.
-       */
-      stopJukeboxPlaylist: () => {},
-      /**
-       * Mocked version of toBack(), which does nothing.
+       * Asserts that an event was fired, optionally a number of times,
+       * returning the arguments it was first fired with.
        */
-      toBack: (obj: Roll20Object) => log(`MOCK toBack(${obj.id})`),
+      fired: (world: World, eventName: string, times?: number) => {
+        const fired = world.events.filter(({ name }) => name === eventName);
+        if (
+          typeof times === "number" ? fired.length !== times : !fired.length
+        ) {
+          fail(
+            `Expected "${eventName}" to fire ${
+              typeof times === "number" ? `${times} times` : ""
+            }.`,
+            `It fired ${fired.length} times.`
+          );
+        }
+        return fired.length ? fired[0].args : [];
+      },
+      notFired: (world: World, eventName: string) => {
+        if (world.events.some(({ name }) => name === eventName)) {
+          fail(`Expected "${eventName}" not to fire.`);
+        }
+      },
       /**
-       * Mocked version of toFront(), which does nothing.
+       * Asserts that a record at or above a level, optionally with a message
+       * matching a string (found in it) or regular expression, was logged,
+       * returning the first one.
        */
-      toFront: (obj: Roll20Object) => log(`MOCK toFront(${obj.id})`),
-      _campaign: (undefined as unknown) as Roll20Object,
-      _handlers: {} as Record<string, Function[]>,
-      ...cfg.mocks,
+      logged: (world: World, level: LogLevelName, match?: string | RegExp) =>
+        world.logs.find((record) => logMatches(record, level, match)) ||
+        fail(
+          `Nothing matching ${show(`${match || ""}`)} logged at ${level}.`,
+          `Logs were ${show(world.logs.map(({ message }) => message))}.`
+        ),
+      notLogged: (
+        world: World,
+        level: LogLevelName,
+        match?: string | RegExp
+      ) => {
+        const record = world.logs.find((record) =>
+          logMatches(record, level, match)
+        );
+        if (record) {
+          fail(
+            `Expected nothing matching ${show(
+              `${match || ""}`
+            )} logged at ${level}.`,
+            `Logged ${show(record.message)}.`
+          );
+        }
+      },
+    };
+
+    type Result = { name: string; passed: boolean; error?: string };
+
+    /**
+     * Runs the registered tests, logging each result and a summary, and
+     * returns the summary.
+     */
+    const run = () => {
+      const results: Result[] = [];
+
+      const runSuite = (
+        suite: HarnessSuite<World>,
+        path: string[],
+        beforeEachHooks: ((world: World) => void)[],
+        afterEachHooks: ((world: World) => void)[]
+      ) => {
+        const names = suite.name ? [...path, suite.name] : path;
+        const beforeEaches = [...beforeEachHooks, ...suite.beforeEach];
+        const afterEaches = [...suite.afterEach, ...afterEachHooks];
+
+        try {
+          suite.before.forEach((hook) => hook());
+        } catch (err) {
+          results.push({
+            name: [...names, "before"].join(" > "),
+            passed: false,
+            error: `${err}`,
+          });
+          return;
+        }
+
+        suite.tests.forEach((test) => {
+          const name = [...names, test.name].join(" > ");
+          const instance = create(config);
+          const world = { ...instance, ...instance._record() };
+          try {
+            beforeEaches.forEach((hook) => hook(world));
+            test.fn(world);
+            afterEaches.forEach((hook) => hook(world));
+            results.push({ name, passed: true });
+            info(`PASSED: ${name}`);
+          } catch (err) {
+            results.push({ name, passed: false, error: `${err}` });
+            error(`FAILED: ${name}: ${err}`);
+          } finally {
+            world.stop();
+          }
+        });
+
+        suite.suites.forEach((child) =>
+          runSuite(child, names, beforeEaches, afterEaches)
+        );
+
+        try {
+          suite.after.forEach((hook) => hook());
+        } catch (err) {
+          results.push({
+            name: [...names, "after"].join(" > "),
+            passed: false,
+            error: `${err}`,
+          });
+        }
+      };
+
+      runSuite(root, [], [], []);
+
+      const failures = results.filter(({ passed }) => !passed);
+      const summary = {
+        total: results.length,
+        passed: results.length - failures.length,
+        failed: failures.length,
+        failures,
+      };
+      (failures.length ? error : info)(
+        `${summary.passed} passed, ${summary.failed} failed, ${summary.total} total.`
+      );
+
+      // @ts-ignore
+      if (failures.length && typeof process !== "undefined") {
+        // @ts-ignore
+        process.exitCode = 1;
+      }
+      return summary;
+    };
+
+    return {
+      describe,
+      it,
+      before,
+      after,
+      beforeEach,
+      afterEach,
+      assert,
+      run,
+    } as const;
+  };
+
+  const installedLibrary = {
+    _meta: {
+      ...cfg,
+    },
+    library,
+    getInstance: (config?: Partial<typeof defaultConfiguration>) => {
+      _instance = _instance || create(config);
+      return _instance;
+    },
+    create,
+    createHarness,
+  } as const;
+
+  // copy installed library to scope.
+  const scope = util.getScope(name);
+  Object.keys(installedLibrary).forEach((key) => {
+    scope[key] = installedLibrary[key as keyof typeof installedLibrary];
+  });
+
+  return installedLibrary;
+})({
+  name: "basiliskasterisk.roll20Api",
+  version: "0.0.1",
+  defaultConfiguration: {
+    logLevel: 10 as number,
+    // Levels of loggers by name, such as "roll20Api.*=WARN".
+    logLevels: "" as string | Record<string, LogLevelName | number>,
+    // Sinks of the logs. By default, they're emitted with log().
+    logSinks: undefined as LogSink[] | undefined,
+    seed: undefined as number | string | undefined,
+    strictSchema: false as boolean,
+    // An approximation of how much state the sandbox will persist, in
+    // characters of JSON.
+    stateSizeLimit: 5000000 as number,
+    latency: {
+      asyncFields: 0 as number,
+      sendChat: 0 as number,
+    },
+    mocks: {},
+    wrappers: {},
+  },
+} as const);
+
+const api = basiliskasterisk__roll20Api.getInstance();
+
+// API testing.
+(({ runTests }) => {
+  if (!runTests) {
+    return;
+  }
+
+  const {
+    describe,
+    it,
+    beforeEach,
+    assert,
+    run,
+  } = basiliskasterisk__roll20Api.createHarness({ logLevel: 50 });
+
+  describe("Campaign", () => {
+    it("is a singleton", ({ api }) => {
+      assert.ok(api.Campaign().id, "Campaign singleton not found.");
+      assert.equal(api.Campaign(), api.Campaign());
+    });
+  });
+
+  // If not in the sandbox, we don't have access to the campaign,
+  // players, handouts, etc. We have to create them, so the remaining
+  // tests only run outside it.
+  if (basiliskasterisk__roll20Api.getInstance()._inSandbox()) {
+    run();
+    return;
+  }
+
+  describe("players", () => {
+    it("may be set as GM", ({ api, _importCampaign, _setAsGM }) => {
+      const [abe] = _importCampaign({
+        players: [{ _displayname: "Abe" }, { _displayname: "Bernie" }],
+      }).objects;
+      assert.ok(!api.playerIsGM(abe.id), `Player is GM.`);
+      _setAsGM(abe.id);
+      assert.ok(api.playerIsGM(abe.id), `Player is not GM.`);
+    });
+
+    it("may be imported as GMs", ({ api, _importCampaign }) => {
+      const [gm, coGM, player] = _importCampaign({
+        players: [{ gm: true }, { gm: true }, {}],
+      }).objects;
+      assert.ok(api.playerIsGM(gm.id), `First GM is not GM.`);
+      assert.ok(api.playerIsGM(coGM.id), `Second GM is not GM.`);
+      assert.ok(!api.playerIsGM(player.id), `Player is GM.`);
+    });
+
+    it("see and control what they are permitted to", (world) => {
+      const { objects } = world._importCampaign({
+        players: [{ id: "gm", gm: true }, { id: "abe" }, { id: "bea" }],
+        pages: [{ id: "map" }],
+        campaign: { playerpageid: "map" },
+        characters: [
+          { id: "hero", controlledby: "abe", attributes: [{ name: "HP" }] },
+          { id: "npc", inplayerjournals: "all" },
+          { id: "villain" },
+        ],
+        handouts: [{ id: "secret", inplayerjournals: "bea" }],
+        graphics: [
+          { id: "token", represents: "hero", _pageid: "map", layer: "objects" },
+          { id: "trap", _pageid: "map", layer: "gmlayer" },
+        ],
+      });
+      const ids = (objs: typeof objects) => objs.map((obj) => obj.id).sort();
+      const abe = world._playerView("abe");
+      const bea = world._playerView("bea");
+
+      assert.deepEqual(ids(abe.controlled("character")), ["hero"]);
+      assert.deepEqual(ids(abe.controlled("graphic")), ["token"]);
+      assert.deepEqual(ids(abe.visible("character")), ["hero", "npc"]);
+      assert.deepEqual(ids(bea.visible("handout")), ["secret"]);
+      assert.deepEqual(ids(bea.visible("graphic")), ["token"]);
+      assert.ok(abe.canSee(abe.controlled("attribute")[0]), "Can't see HP.");
+      assert.equal(world._playerView("gm").visible().length, objects.length);
+    });
+
+    it("see whispers meant for them", (world) => {
+      world._importCampaign({
+        players: [
+          { id: "gm", gm: true },
+          { id: "abe", _displayname: "Abe" },
+          { id: "bea", _displayname: "Bea" },
+        ],
+        characters: [{ name: "Hero", controlledby: "abe,bea" }],
+      });
+      world.api.sendChat("Narrator", "/w abe For Abe.");
+      world.api.sendChat("Narrator", "/w Hero For the party.");
+      world.api.sendChat("Narrator", "/w gm For the GM.");
+
+      const seen = (playerId: string) =>
+        world
+          ._playerView(playerId)
+          .chat(world.chat)
+          .map((msg) => msg.content);
+      assert.deepEqual(seen("abe"), ["For Abe.", "For the party."]);
+      assert.deepEqual(seen("bea"), ["For the party."]);
+      assert.equal(seen("gm").length, 3);
+    });
+  });
+
+  describe("events", () => {
+    it("are heard by handlers", ({ api, _fireEvent }) => {
+      const heard: any[] = [];
+      api.on("chat:message", (msg: any) => heard.push(msg));
+      _fireEvent("chat:message", { message: "Foo!" });
+      assert.deepEqual(heard, [{ message: "Foo!" }]);
+    });
+
+    it("call onSheetWorkerCompleted callbacks once", ({ api, _fireEvent }) => {
+      let called = 0;
+      api.onSheetWorkerCompleted(() => called++);
+      _fireEvent("sheetWorkerCompleted");
+      _fireEvent("sheetWorkerCompleted");
+      assert.equal(called, 1);
+    });
+  });
+
+  describe("sendChat", () => {
+    beforeEach(({ _importCampaign }) => {
+      _importCampaign({ players: [{ id: "abe", _displayname: "Abe" }] });
+    });
+
+    it("fires chat:message", (world) => {
+      world.api.sendChat("Narrator", "/em looks around.");
+      assert.chatted(world, {
+        type: "emote",
+        who: "Narrator",
+        content: "looks around.",
+      });
+    });
+
+    it("passes messages to its callback instead", (world) => {
+      let msgs: any[] = [];
+      world.api.sendChat("Narrator", "!doit", (m) => (msgs = m));
+      world.scheduler.runAll();
+      assert.deepEqual(
+        msgs.map(({ type, playerid }) => [type, playerid]),
+        [["api", "API"]]
+      );
+      assert.notFired(world, "chat:message");
+    });
+
+    it("sends several lines as one message", (world) => {
+      world.api.sendChat("Narrator", "First line.\nSecond line.");
+      assert.fired(world, "chat:message", 1);
+      assert.chatted(world, { content: "First line.\nSecond line." });
+    });
+
+    it("resolves whisper targets", (world) => {
+      world.api.sendChat("Narrator", `/w "Abe" psst`);
+      assert.chatted(world, {
+        type: "whisper",
+        target: "abe",
+        content: "psst",
+      });
+    });
+
+    it("may be sent by players with objects selected", (world) => {
+      const selected = [{ _id: "abe", _type: "player" as const }];
+      world._playerChat("abe", "!cmd --flag", selected);
+      assert.chatted(world, { who: "Abe", selected });
+    });
+
+    it("expands inline rolls, nested ones first", (world) => {
+      world.api.sendChat("Narrator", "Attack: [[1d20+[[1d4]]]]");
+      const msg = assert.chatted(world, "Attack: $[[1]]");
+      assert.equal(msg.inlinerolls?.length, 2);
+    });
+
+    it("sends /roll as a rollresult", (world) => {
+      world.api.sendChat("Narrator", "/roll 3d6");
+      const msg = assert.chatted(world, { type: "rollresult" });
+      assert.equal(JSON.parse(msg.content).type, "V");
+    });
+  });
+
+  describe("rollDice", () => {
+    it("does math", ({ rollDice }) => {
+      const { total, rolls } = rollDice("floor(7/2)+3*2");
+      assert.equal(total, 9);
+      assert.equal(rolls[0].type, "M");
+    });
+
+    it("rolls dice with modifiers and labels", ({ rollDice }) => {
+      const { total, rolls } = rollDice("1d20+5[STR]");
+      assert.deepEqual(
+        rolls.map(({ type }) => type),
+        ["R", "M", "C"]
+      );
+      assert.equal(rolls[0].type === "R" && rolls[0].results[0].v + 5, total);
+    });
+
+    it("keeps the highest", ({ rollDice }) => {
+      const [roll] = rollDice("2d20kh1").rolls;
+      assert.equal(
+        roll.type === "R" && roll.results.filter(({ d }) => d).length,
+        1
+      );
+    });
+
+    it("counts successes", ({ rollDice }) => {
+      const { total, resultType, rolls } = rollDice("10d6>5");
+      assert.equal(resultType, "success");
+      assert.equal(
+        rolls[0].type === "R" &&
+          rolls[0].results.filter(({ v }) => v >= 5).length,
+        total
+      );
+    });
+
+    it("groups rolls", ({ rollDice }) => {
+      const [group] = rollDice("{1d20+5, 1d20+3}kh1").rolls;
+      assert.equal(group.type === "G" && group.rolls.length, 2);
+    });
+
+    it("is reproducible when seeded", () => {
+      const roll = () => {
+        const { api, rollDice } = basiliskasterisk__roll20Api.create({
+          logLevel: 50,
+          seed: "golden",
+        });
+        const obj = api.createObj("graphic", {});
+        return `${obj.id} ${rollDice("10d20").total}`;
+      };
+      const first = roll();
+      assert.equal(roll(), first);
+      assert.ok(/^-M[-\w]{18} /.test(first), `Ids are not Roll20 style.`);
+    });
+  });
+
+  describe("Roll20Object", () => {
+    it("fires change events with prev", (world) => {
+      const character = world.api.createObj("character", { name: "Zed" });
+      character.set("name", "Zed");
+      assert.notFired(world, "change:character");
+
+      character.set({ name: "Zara", archived: false });
+      assert.fired(world, "change:character:name", 1);
+      const [obj, prev] = assert.fired(world, "change:character", 1);
+      assert.equal(obj, character);
+      assert.equal(prev.name, "Zed");
+    });
+
+    it("represents async fields by id in prev", (world) => {
+      const character = world.api.createObj("character", { bio: "Born." });
+      character.set("bio", "Born again.");
+      const [, prev] = assert.fired(world, "change:character:bio");
+      assert.ok(prev.bio && prev.bio !== "Born.", `prev.bio is content.`);
+    });
+
+    it("fires add and destroy, cascading removal", (world) => {
+      const character = world.api.createObj("character", { name: "Doomed" });
+      world.api.createObj("attribute", {
+        characterid: character.id,
+        name: "HP",
+        current: 1,
+      });
+      world.api.createObj("ability", { characterid: character.id });
+      assert.fired(world, "add:character", 1);
+
+      character.remove();
+      assert.deepEqual(
+        world.events
+          .filter(({ name }) => name === "destroy")
+          .map(({ args }) => args[0].get("_type")),
+        ["character", "attribute", "ability"]
+      );
+      assert.notExists(world, "attribute");
+    });
+
+    it("is populated with defaults", ({ api }) => {
+      const token = api.createObj("graphic", { pageid: "p" });
+      assert.has(token, {
+        left: 0,
+        aura1_color: "#FFFF99",
+        _pageid: "p",
+        pageid: "p",
+      });
+    });
+
+    it("rejects values of the wrong type", ({ api }) => {
+      const token = api.createObj("graphic", {});
+      token.set("left", "far away");
+      token.set("bar1_value", 7);
+      assert.has(token, { left: 0, bar1_value: 7 });
+    });
+  });
+
+  describe("getAttrByName", () => {
+    it("reads attributes, repeating rows and defaults", (world) => {
+      const { api, _setSheetDefaults } = world;
+      const hero = api.createObj("character", { name: "Hero" });
+      const attr = (name: string, current: any, max: any = "") =>
+        api.createObj("attribute", {
+          characterid: hero.id,
+          name,
+          current,
+          max,
+        });
+      attr("HP", 8, 10);
+      attr("repeating_gear_-AAAAAAAAAAAAAAAAAAA_item", "rope");
+      attr("repeating_gear_-BBBBBBBBBBBBBBBBBBB_item", "torch");
+      attr("_reporder_repeating_gear", "-BBBBBBBBBBBBBBBBBBB");
+      _setSheetDefaults({ strength: 10 });
+
+      assert.equal(api.getAttrByName(hero.id, "hp"), 8);
+      assert.equal(api.getAttrByName(hero.id, "HP", "max"), 10);
+      assert.equal(
+        api.getAttrByName(hero.id, "repeating_gear_$0_item"),
+        "torch"
+      );
+      assert.equal(
+        api.getAttrByName(hero.id, "repeating_gear_$1_item"),
+        "rope"
+      );
+      assert.equal(api.getAttrByName(hero.id, "strength"), 10);
+    });
+  });
+
+  describe("sheet workers", () => {
+    it("run behind setWithWorker", (world) => {
+      const { api, _registerSheetWorker } = world;
+      _registerSheetWorker(({ on, getAttrs, setAttrs }) => {
+        on("change:strength", () => {
+          getAttrs(["strength"], ({ strength }) => {
+            setAttrs({ strength_mod: Math.floor((strength - 10) / 2) });
+          });
+        });
+        on("change:strength_mod", () => {
+          getAttrs(["strength_mod"], ({ strength_mod }) => {
+            setAttrs({ carry: 50 + strength_mod * 10 });
+          });
+        });
+      });
+
+      const lifter = api.createObj("character", { name: "Lifter" });
+      const strength = api.createObj("attribute", {
+        characterid: lifter.id,
+        name: "strength",
+        current: 10,
+      });
+
+      let carry;
+      api.onSheetWorkerCompleted(
+        () => (carry = api.getAttrByName(lifter.id, "carry"))
+      );
+      strength.setWithWorker({ current: 14 });
+      assert.equal(carry, 70);
+      assert.fired(world, "sheetWorkerCompleted", 1);
+    });
+  });
+
+  describe("scheduler", () => {
+    it("runs async field callbacks after their latency", () => {
+      const { api, scheduler } = basiliskasterisk__roll20Api.create({
+        logLevel: 50,
+        latency: { asyncFields: 50, sendChat: 0 },
+      });
+      const order: string[] = [];
+      const handout = api.createObj("handout", { notes: "old" });
+      handout.get("notes", (notes: string) => order.push(`notes:${notes}`));
+      api.setTimeout(() => order.push("timeout"), 10);
+      handout.set("notes", "new");
+
+      scheduler.tick(20);
+      assert.deepEqual(order, ["timeout"]);
+      assert.equal(scheduler.pending(), 1);
+      scheduler.runAll();
+      assert.deepEqual(order, ["timeout", "notes:new"]);
+      assert.equal(scheduler.now(), 50);
+    });
+
+    it("stops runAll() when timeouts keep rescheduling", ({
+      api,
+      scheduler,
+    }) => {
+      const again = () => api.setTimeout(again, 10);
+      again();
+      const err = assert.throws(() => scheduler.runAll());
+      assert.ok(/rescheduling/.test(err.message), `Wrong error: ${err}`);
+      assert.equal(scheduler.pending(), 1);
+    });
+
+    it("runs long timeouts alongside intervals", ({ api, scheduler }) => {
+      let ticks = 0;
+      let done = false;
+      api.setInterval(() => ticks++, 1);
+      api.setTimeout(() => (done = true), 20000);
+      scheduler.runAll();
+      assert.ok(done, "The timeout never ran.");
+      assert.equal(ticks, 19999);
+      assert.equal(scheduler.now(), 20000);
+    });
+  });
+
+  describe("_restart", () => {
+    it("keeps serializable state and the pool", ({ api, _restart }) => {
+      const script = () =>
+        api.on("ready", () => {
+          api.state.runs = (api.state.runs || 0) + 1;
+        });
+      script();
+      api.state.lost = () => {};
+      api.state.nested = { kept: 1 };
+      api.state.nested.parent = api.state.nested;
+      api.createObj("handout", { name: "Kept" });
+
+      _restart(script);
+      _restart(script);
+      assert.equal(api.state.runs, 2);
+      assert.ok(!("lost" in api.state), `Functions survived in state.`);
+      assert.deepEqual(api.state.nested, { kept: 1 });
+      assert.ok(
+        api.getAllObjs().some((obj) => obj.get("name") === "Kept"),
+        `Objects were lost.`
+      );
+    });
+  });
+
+  describe("_importCampaign", () => {
+    it("populates the pool and reports dangling references", (world) => {
+      const { objects, problems } = world._importCampaign(
+        JSON.stringify({
+          campaign: { playerpageid: "page1" },
+          players: [{ id: "p1", _displayname: "Fay" }],
+          pages: [{ id: "page1", name: "Cave" }],
+          characters: [
+            {
+              id: "c1",
+              name: "Orc",
+              controlledby: "p1",
+              attributes: [{ name: "hp", current: 7 }],
+            },
+          ],
+          tables: [{ id: "t1", name: "Loot", items: [{ name: "Gold" }] }],
+          graphics: [
+            { id: "g1", _pageid: "page1", represents: "c1" },
+            { id: "g2", _pageid: "page2", represents: "c1" },
+          ],
+        })
+      );
+      assert.equal(objects.length, 9);
+      assert.equal(world.api.Campaign().get("playerpageid"), "page1");
+      assert.equal(world.api.getAttrByName("c1", "hp"), 7);
+      assert.exists(world, "tableitem", {
+        name: "Gold",
+        _rollabletableid: "t1",
+      });
+      assert.equal(problems.length, 1);
+      assert.ok(problems[0].indexOf("g2") > -1, `Wrong problem reported.`);
+    });
+  });
+
+  describe("world snapshots", () => {
+    it("serialize stably and diff by id and property", (world) => {
+      const { api, _importCampaign, _serializeWorld, _diffWorlds } = world;
+      _importCampaign({
+        characters: [{ id: "c1", name: "Orc" }],
+        graphics: [{ id: "g1", left: 70 }],
+      });
+      const before = _serializeWorld();
+      assert.equal(_serializeWorld(), before);
+
+      assert.exists(world, "graphic", { _id: "g1" }).set("left", 140);
+      assert.exists(world, "character", { _id: "c1" }).remove();
+      api.state.moved = true;
+      assert.deepEqual(
+        _diffWorlds(before, _serializeWorld()).map(
+          ({ id, change, property }) => `${id} ${change} ${property || ""}`
+        ),
+        ["c1 removed ", "g1 changed left", "state changed moved"]
+      );
+    });
+
+    it("leave out circular state", (world) => {
+      world.api.state.a = { kept: true };
+      world.api.state.a.self = world.api.state.a;
+      assert.deepEqual(JSON.parse(world._serializeWorld()).state, {
+        a: { kept: true },
+      });
+      assert.deepEqual(world._fork().api.state, { a: { kept: true } });
+    });
+  });
+
+  describe("rollable tables", () => {
+    const loot = {
+      players: [{ id: "abe" }],
+      tables: [
+        {
+          name: "Loot",
+          items: [
+            { name: "Sword", weight: 1 },
+            { name: "Nothing", weight: 0 },
+            { name: "Gold", weight: 3 },
+          ],
+        },
+        { name: "Secrets", showplayers: false, items: [{ name: "Trap" }] },
+      ],
     };
 
-    /**
-     * Wrapper functions! Functions defined here wrap the Mocked or
-     * real versions of the api function. They take the actual function as
-     * an argument and return a modified version with the same interface as the
-     * original one.
-     */
-    const WRAPPERS = {
-      /**
-       * Wrapper for createObj to add additional error checking and logging.
-       */
-      createObj: (createFn: typeof MOCKS.createObj) => {
-        return ((type, obj) => {
-          log(`Attempting createObj(${type}, ${JSON.stringify(obj)}).`);
-          let newObj;
-          try {
-            newObj = createFn(type, obj);
-          } catch (err) {
-            log(`Failed to createObj: ${err.toString()}`);
-            throw err;
-          }
-          log(
-            `createObj(${type}, ${JSON.stringify(
-              obj
-            )}) returned: ${JSON.stringify(newObj)}.`
-          );
-          return newObj;
-        }) as typeof MOCKS.createObj;
+    it("roll items by weight", ({ rollDice, _importCampaign }) => {
+      _importCampaign(loot);
+      const [roll] = rollDice("400t[Loot]").rolls;
+      const counts: Record<string, number> = {};
+      assert.ok(roll.type === "R" && roll.table === "Loot", "Not a table.");
+      assert.equal(roll.type === "R" && roll.sides, 4);
+      (roll.type === "R" ? roll.results : []).forEach(
+        ({ tableItem }) =>
+          (counts[tableItem.name] = (counts[tableItem.name] || 0) + 1)
+      );
+      assert.ok(!counts.Nothing, "Rolled an item of weight 0.");
+      assert.ok(counts.Gold > counts.Sword * 2, "Weights not respected.");
+    });
+
+    it("resolve inline rolls", (world) => {
+      world._importCampaign(loot);
+      world.api.sendChat("GM", "Found [[3t[Loot]]] and [[t[Secrets]]].");
+      const [msg] = world.chat;
+      const [loot3, secret] = (msg.inlinerolls || []).map(({ results }) =>
+        results.rolls[0].type === "R" ? results.rolls[0].results : []
+      );
+      assert.equal(msg.content, "Found $[[0]] and $[[1]].");
+      assert.equal(loot3.length, 3);
+      assert.deepEqual(
+        { ...secret[0], tableItem: secret[0].tableItem.name },
+        { v: 0, tableidx: 0, tableItem: "Trap" }
+      );
+    });
+
+    it("hide tables not shown to players", (world) => {
+      world._importCampaign(loot);
+      world._playerChat("abe", "[[1t[Loot]]]");
+      world._playerChat("abe", "[[1t[Secrets]]] or [[1t[Loot]]]");
+      assert.equal(world.chat[0].content, "$[[0]]");
+      assert.equal(world.chat[1].content, "[[1t[Secrets]]] or $[[0]]");
+      assert.equal((world.chat[1].inlinerolls || []).length, 1);
+      assert.logged(world, "ERROR", "Can't roll [[1t[Secrets]]]");
+    });
+  });
+
+  describe("cards", () => {
+    const tarot = {
+      players: [{ id: "abe" }, { id: "bea" }],
+      pages: [{ id: "table" }],
+      campaign: { playerpageid: "table" },
+      decks: [
+        {
+          id: "tarot",
+          cards: [
+            { id: "fool", name: "The Fool" },
+            { id: "magician", name: "The Magician" },
+            { id: "priestess", name: "The High Priestess" },
+          ],
+        },
+      ],
+    };
+
+    it("are drawn, dealt and played", (world) => {
+      world._importCampaign(tarot);
+      const { api } = world;
+      assert.equal(api.drawCard("tarot"), "fool");
+      api.giveCardToPlayer("fool", "abe");
+      api.giveCardToPlayer("magician", "abe");
+      const graphic = api.playCardToTable("priestess", { left: 70 });
+
+      assert.ok(graphic, "Card not played.");
+      assert.has(graphic as Exclude<typeof graphic, false>, {
+        _cardid: "priestess",
+        _pageid: "table",
+        left: 70,
+      });
+      assert.deepEqual(
+        api.cardInfo({ deckid: "tarot" }).map(({ type }) => type),
+        ["hand", "hand", "graphic"]
+      );
+      assert.exists(world, "hand", {
+        _parentid: "abe",
+        currentHand: "fool,magician",
+      });
+      assert.fired(world, "change:hand:currentHand");
+      assert.fired(world, "change:deck:_currentDeck");
+
+      assert.equal(api.takeCardFromPlayer("abe", { index: 1 }), "magician");
+      assert.equal(api.pickUpCard("priestess"), "priestess");
+      assert.notExists(world, "graphic");
+      assert.equal(api.drawCard("tarot"), false);
+    });
+
+    it("are played with no player page", (world) => {
+      world._importCampaign({ ...tarot, campaign: {} });
+      const graphic = world.api.playCardToTable("fool");
+      assert.ok(graphic, "Card not played.");
+      assert.has(graphic as Exclude<typeof graphic, false>, { _pageid: "" });
+      assert.notLogged(world, "ERROR");
+    });
+
+    it("are recalled and shuffled", (world) => {
+      world._importCampaign(tarot);
+      const { api } = world;
+      api.giveCardToPlayer("fool", "bea");
+      api.playCardToTable("magician");
+      api.recallCards("tarot", "hand");
+      assert.equal(
+        api.getObj("deck", "tarot")?.get("_currentDeck"),
+        "priestess,fool"
+      );
+      api.recallCards("tarot");
+      api.shuffleDeck("tarot", true, ["magician", "priestess", "fool"]);
+      assert.equal(
+        api.getObj("deck", "tarot")?.get("_currentDeck"),
+        "magician,priestess,fool"
+      );
+      api.shuffleDeck("tarot", true, ["fool"]);
+      assert.equal(
+        api.getObj("deck", "tarot")?.get("_currentDeck"),
+        "fool,magician,priestess"
+      );
+      api.shuffleDeck("tarot");
+      assert.equal(
+        `${api.getObj("deck", "tarot")?.get("_currentDeck")}`
+          .split(",")
+          .sort()
+          .join(","),
+        "fool,magician,priestess"
+      );
+    });
+  });
+
+  describe("turnOrder", () => {
+    const battle = {
+      pages: [{ id: "arena" }, { id: "elsewhere" }],
+      campaign: { playerpageid: "arena" },
+      graphics: [
+        { id: "hero", _pageid: "arena" },
+        { id: "orc", _pageid: "arena" },
+        { id: "ghost", _pageid: "elsewhere" },
+      ],
+    };
+
+    it("adds, sorts and advances", ({ turnOrder, _importCampaign }) => {
+      _importCampaign(battle);
+      turnOrder.add("hero", 12);
+      turnOrder.add("orc", 17);
+      turnOrder.addRound();
+      turnOrder.sort();
+      assert.deepEqual(
+        turnOrder.get().map(({ id, custom }) => custom || id),
+        ["orc", "hero", "Round"]
+      );
+
+      assert.equal(turnOrder.next()?.id, "hero");
+      turnOrder.next();
+      assert.equal(turnOrder.round(), 1);
+      assert.equal(turnOrder.next()?.id, "orc");
+      assert.equal(turnOrder.round(), 2);
+
+      turnOrder.remove("Round");
+      turnOrder.remove("hero");
+      assert.deepEqual(turnOrder.get(), [
+        { id: "orc", pr: 17, custom: "", _pageid: "arena" },
+      ]);
+    });
+
+    it("validates tokens", ({ api, turnOrder, _importCampaign }) => {
+      _importCampaign(battle);
+      assert.ok(!turnOrder.add("ghost", 3), "Added a token on another page.");
+      assert.ok(!turnOrder.add("nobody", 3), "Added a missing token.");
+      api
+        .Campaign()
+        .set("turnorder", JSON.stringify([{ id: "ghost", pr: 1, custom: "" }]));
+      assert.deepEqual(turnOrder.validate(), [
+        `Graphic "ghost" is not on the player page.`,
+      ]);
+    });
+
+    it("treats a malformed turn order as empty", (world) => {
+      world._importCampaign(battle);
+      world.api.Campaign().set("turnorder", "[{");
+      assert.deepEqual(world.turnOrder.get(), []);
+      assert.logged(world, "ERROR", "turnorder is not JSON");
+      assert.ok(world.turnOrder.add("hero", 5), "Couldn't add to it.");
+      assert.equal(world.turnOrder.current()?.id, "hero");
+    });
+
+    it("fires change events with the previous order", (world) => {
+      world._importCampaign(battle);
+      world.turnOrder.add("hero", 5);
+      world.turnOrder.add("orc", 9);
+      assert.fired(world, "change:campaign:turnorder", 2);
+      const [, second] = world.events.filter(
+        ({ name }) => name === "change:campaign:turnorder"
+      );
+      assert.deepEqual(
+        JSON.parse(second.args[1].turnorder).map(({ id }: any) => id),
+        ["hero"]
+      );
+    });
+  });
+
+  describe("grid", () => {
+    const map = {
+      players: [{ id: "abe" }, { id: "bea" }, { id: "gm", gm: true }],
+      pages: [{ id: "map", width: 10, height: 10 }, { id: "jail" }],
+      campaign: { playerpageid: "map", playerspecificpages: { bea: "jail" } },
+      graphics: [
+        { id: "hero", _pageid: "map", controlledby: "abe", left: 35, top: 35 },
+        { id: "guard", _pageid: "jail", left: 35, top: 35 },
+      ],
+    };
+
+    it("measures by the page's diagonal rule", ({ grid, _importCampaign }) => {
+      // 3 cells across and 2 down, at 5ft per cell.
+      const from = { left: 35, top: 35 };
+      const to = { left: 35 + 70 * 3, top: 35 + 70 * 2 };
+      const distances = ["foure", "threefive", "manhattan"].map((type) => {
+        const { objects } = _importCampaign({
+          pages: [{ diagonaltype: type }],
+        });
+        return grid.distance(from, to, objects[0]);
+      });
+      assert.deepEqual(distances, [15, 20, 25]);
+    });
+
+    it("moves tokens in grid units", (world) => {
+      world._importCampaign(map);
+      const hero = assert.exists(world, "graphic", { _id: "hero" });
+      world.grid.moveBy(hero, 2, 1);
+      assert.has(hero, { left: 175, top: 105, lastmove: "35,35" });
+      assert.fired(world, "change:graphic:left");
+      world.grid.moveBy(hero, 20, 0);
+      assert.has(hero, { left: 700 });
+      assert.equal(world.grid.distance(hero, { left: 0, top: 105 }), 50);
+    });
+
+    it("snaps tokens dragged by players", (world) => {
+      world._importCampaign(map);
+      const hero = assert.exists(world, "graphic", { _id: "hero" });
+      hero.set({ width: 70, height: 70 });
+      assert.ok(!world._dragToken("bea", hero, { left: 0, top: 0 }), "Moved.");
+      world._dragToken(
+        "abe",
+        hero,
+        { left: 105, top: 35 },
+        { left: 120, top: 90 }
+      );
+      assert.has(hero, { left: 105, top: 105, lastmove: "35,35,105,35" });
+    });
+
+    it("shows players their page", (world) => {
+      world._importCampaign(map);
+      const seen = (playerId: string) =>
+        world
+          ._playerView(playerId)
+          .visible("graphic")
+          .map(({ id }) => id);
+      assert.deepEqual(seen("abe"), ["hero"]);
+      assert.deepEqual(seen("bea"), ["guard"]);
+      assert.equal(world._playerView("bea").page(), "jail");
+      assert.deepEqual(seen("gm"), ["hero", "guard"]);
+    });
+  });
+
+  describe("paths", () => {
+    const square = JSON.stringify([
+      ["M", 0, 0],
+      ["L", 140, 0],
+      ["L", 140, 140],
+      ["L", 0, 140],
+      ["L", 0, 0],
+    ]);
+
+    it("validate _path", ({ api }) => {
+      const bad = [
+        "[",
+        "[]",
+        JSON.stringify([["L", 0, 0]]),
+        JSON.stringify([["M", 0, 0], ["Z"]]),
+        JSON.stringify([
+          ["M", 0, 0],
+          ["Q", 1, 2, 3],
+        ]),
+      ];
+      bad.forEach((_path) =>
+        assert.throws(
+          () => api.createObj("path", { _path }),
+          `Accepted ${_path}.`
+        )
+      );
+      assert.equal(api.findObjs({ _type: "path" }).length, 0);
+      const curve = JSON.stringify([
+        ["M", 0, 0],
+        ["Q", 35, 70, 70, 0],
+        ["C", 70, 35, 35, 35, 0, 0],
+      ]);
+      assert.equal(api.createObj("path", { _path: curve }).get("_path"), curve);
+    });
+
+    it("have segments and bounds on their page", ({ api, paths }) => {
+      const path = api.createObj("path", {
+        _path: square,
+        left: 200,
+        top: 100,
+        scaleX: 0.5,
+        scaleY: 0.5,
+        rotation: 90,
+      });
+      assert.equal(paths.segments(path).length, 4);
+      assert.deepEqual(
+        paths.segments(path)[0].from,
+        { left: 235, top: 65 },
+        "Not scaled and rotated."
+      );
+      assert.deepEqual(paths.bounds(path), {
+        left: 165,
+        top: 65,
+        right: 235,
+        bottom: 135,
+      });
+
+      const dot = api.createObj("path", { _path: '[["M",10,10]]' });
+      assert.deepEqual(paths.segments(dot), []);
+      assert.equal(paths.bounds(dot), undefined);
+    });
+
+    it("block line of sight on the walls layer", ({ api, paths }) => {
+      const wall = { _pageid: "p", left: 70, top: 70, _path: square };
+      api.createObj("path", { ...wall, layer: "map" });
+      assert.ok(
+        paths.lineOfSight("p", { left: 0, top: 70 }, { left: 200, top: 70 }),
+        "Blocked by a drawing."
+      );
+      api.createObj("path", { ...wall, layer: "walls" });
+      assert.ok(
+        !paths.lineOfSight("p", { left: 0, top: 70 }, { left: 200, top: 70 }),
+        "Not blocked by a wall."
+      );
+      assert.ok(
+        paths.lineOfSight("p", { left: 0, top: 150 }, { left: 200, top: 150 }),
+        "Blocked beside a wall."
+      );
+    });
+  });
+
+  describe("jukebox", () => {
+    const music = (mode: string) => ({
+      campaign: {
+        _jukeboxfolder: JSON.stringify([
+          "rain",
+          { id: "tavern", n: "Tavern", s: mode, i: ["lute", "drums", "song"] },
+          { id: "battle", n: "Battle", s: "a", i: ["horns", "rain"] },
+        ]),
       },
-      ...cfg.wrappers,
+      jukeboxtracks: ["rain", "lute", "drums", "song", "horns"].map((id) => ({
+        id,
+        title: id,
+        volume: id === "rain" ? 10 : 30,
+      })),
+    });
+    const playing = ({ tracks }: { tracks: { id: string }[] }) =>
+      tracks.map(({ id }) => id);
+
+    it("plays playlists together", (world) => {
+      world._importCampaign(music("o"));
+      world.api.playJukeboxPlaylist("battle");
+      assert.deepEqual(playing(world._nowPlaying()), ["rain", "horns"]);
+      assert.fired(world, "change:jukeboxtrack:playing", 2);
+      world.api.stopJukeboxPlaylist();
+      assert.deepEqual(world._nowPlaying(), {
+        playlist: undefined,
+        tracks: [],
+      });
+    });
+
+    it("end playlists played together with their last track", (world) => {
+      world._importCampaign(music("o"));
+      world.api.playJukeboxPlaylist("battle");
+      world._endJukeboxTrack("horns");
+      assert.equal(world._nowPlaying().playlist, "battle");
+      world._endJukeboxTrack("rain");
+      assert.deepEqual(world._nowPlaying(), {
+        playlist: undefined,
+        tracks: [],
+      });
+    });
+
+    it("plays playlists in order", (world) => {
+      world._importCampaign(music("o"));
+      world.api.playJukeboxPlaylist("tavern");
+      assert.deepEqual(playing(world._nowPlaying()), ["lute"]);
+      world._endJukeboxTrack("lute");
+      assert.deepEqual(playing(world._nowPlaying()), ["drums"]);
+      assert.exists(world, "jukeboxtrack", { _id: "drums" }).set("loop", true);
+      world._endJukeboxTrack("drums");
+      assert.deepEqual(playing(world._nowPlaying()), ["drums"]);
+
+      world.api.playJukeboxPlaylist("battle");
+      assert.deepEqual(playing(world._nowPlaying()), ["rain", "horns"]);
+      assert.equal(world._nowPlaying().playlist, "battle");
+    });
+
+    it("shuffles playlists", (world) => {
+      world._importCampaign(music("s"));
+      world.api.playJukeboxPlaylist("tavern");
+      const heard = playing(world._nowPlaying());
+      world._endJukeboxTrack(heard[0]);
+      heard.push(...playing(world._nowPlaying()));
+      world._endJukeboxTrack(heard[1]);
+      heard.push(...playing(world._nowPlaying()));
+      world._endJukeboxTrack(heard[2]);
+      assert.deepEqual(heard.sort(), ["drums", "lute", "song"]);
+      assert.deepEqual(world._nowPlaying().tracks, []);
+    });
+
+    it("treat a malformed folder as empty", (world) => {
+      world._importCampaign({
+        ...music("o"),
+        campaign: { _jukeboxfolder: "[{" },
+      });
+      world.api.playJukeboxPlaylist("tavern");
+      assert.logged(world, "ERROR", "_jukeboxfolder is not JSON");
+      assert.deepEqual(playing(world._nowPlaying()), []);
+    });
+  });
+
+  describe("effects", () => {
+    const stage = {
+      players: [{ id: "gm", gm: true }, { id: "abe" }, { id: "bea" }],
+      pages: [{ id: "stage" }, { id: "wings" }],
+      campaign: {
+        playerpageid: "stage",
+        playerspecificpages: { bea: "wings" },
+      },
+      custfx: [{ id: "sparkle", definition: { maxParticles: 50 } }],
+      graphics: ["backdrop", "actor", "prop"].map((id) => ({
+        id,
+        _pageid: "stage",
+        layer: id === "backdrop" ? "map" : "objects",
+      })),
     };
 
-    type API = typeof MOCKS;
+    it("records fx and pings", (world) => {
+      world._importCampaign(stage);
+      world.api.spawnFx(10, 20, "bomb-fire", "stage");
+      world.scheduler.tick(100);
+      world.api.spawnFx(10, 20, "sparkle", "stage");
+      world.api.spawnFx(10, 20, "fizzle-fire", "stage");
+      world.api.spawnFxBetweenPoints(
+        { x: 0, y: 0 },
+        { x: 70, y: 0 },
+        "beam-frost",
+        "stage"
+      );
+      world.api.sendPing(35, 35, "stage", "abe", true);
+      world.api.sendPing(35, 35, "stage", "gm", false, ["gm"]);
 
-    const _api = {} as API;
+      assert.deepEqual(
+        world._effects("fx").map(({ fx, time }) => [fx, time]),
+        [
+          ["bomb-fire", 0],
+          ["sparkle", 100],
+        ]
+      );
+      assert.equal(world._effects("fxBetween")[0].fx, "beam-frost");
+      assert.deepEqual(
+        world._effects("ping").map(({ visibleTo }) => visibleTo),
+        [["gm", "abe"], ["gm"]]
+      );
+    });
 
-    Object.keys(MOCKS).forEach((k) => {
-      const topLevelScope = util.getScope();
-      const key = k as keyof typeof MOCKS;
-      type M = typeof MOCKS["Campaign"];
-      if (typeof topLevelScope[key] !== "undefined") {
-        log(`Found Roll20's "${key}". Copying to Roll20Api.`);
-        _api[key] = topLevelScope[key] as typeof MOCKS[typeof key];
-      } else {
-        log(`Roll20 "${key}" not found. Installing mock.`);
-        if (typeof MOCKS[key] === "undefined") {
-          log(`No mock found for "${key}"`);
-        }
-        _api[key] = MOCKS[key];
-        log(`Using mocked "${key}": ${_api[key]?.toString()}.`);
-      }
+    it("validates fx definitions", (world) => {
+      world.api.spawnFxWithDefinition(0, 0, { speed: "fast" }, "stage");
+      world.api.spawnFxWithDefinition(0, 0, { sparkle: 1 }, "stage");
+      world.api.spawnFxWithDefinition(
+        0,
+        0,
+        { startColour: [255, 0, 0, 1], gravity: { x: 0, y: 0.1 } },
+        "stage"
+      );
+      assert.equal(world._effects("fxDefinition").length, 1);
+      const [fx] = world._importCampaign({
+        custfx: [{ definition: { endColour: [0, 0] } }],
+      }).objects;
+      assert.deepEqual(fx.get("definition"), {});
+    });
 
-      if ((WRAPPERS as Record<string, any>)[key]) {
-        log(`Custom wrapper found for "${key}". Applying.`);
-        _api[key] = (WRAPPERS as Record<string, any>)[key](
-          _api[key]
-        ) as typeof MOCKS[typeof key];
-      }
+    it("reorders objects within their layer", (world) => {
+      world._importCampaign(stage);
+      const actor = assert.exists(world, "graphic", { _id: "actor" });
+      const prop = assert.exists(world, "graphic", { _id: "prop" });
+      world.api.toBack(prop);
+      assert.deepEqual(world._zOrder("stage", "objects"), ["prop", "actor"]);
+      world.api.toFront(prop);
+      world.api.toBack(actor);
+      assert.deepEqual(world._zOrder("stage"), ["actor", "backdrop", "prop"]);
+      assert.deepEqual(world._zOrder("stage", "objects"), ["actor", "prop"]);
+      assert.fired(world, "change:page:_zorder", 3);
+      assert.equal(world._effects("zorder").length, 3);
     });
+  });
 
-    return {
-      Roll20Object,
-      OBJECT_TYPES: Roll20Object.TYPES,
-      SPAWN_FX_TYPES,
-      SPAWN_FX_BETWEEN_TYPES,
-      SPAWN_FX_COLORS,
-      api: _api,
-      _promote,
-      _fireEvent,
-      _setAsGM,
-      _inSandbox,
-    } as const;
-  };
+  describe("chat commands", () => {
+    it("parses arguments and options", ({ parseCommand, rollDice }) => {
+      const roll = {
+        expression: "3+4",
+        results: rollDice("3+4"),
+        rollid: "roll1",
+        signature: false,
+      };
+      const { command, args, options } = parseCommand(
+        {
+          content: `!heal "Sir Robin" --by|"2 hp" --silent --to $[[0]] --x`,
+          inlinerolls: [roll],
+        },
+        { silent: { flag: true } }
+      );
+      assert.equal(command, "heal");
+      assert.deepEqual(args, ["Sir Robin"]);
+      assert.deepEqual(options, { by: "2 hp", silent: true, to: "7", x: true });
 
-  let _instance = undefined as ReturnType<typeof library> | undefined;
+      const said = parseCommand({ content: `!say don't go 'that way' --loud` });
+      assert.deepEqual(said.args, ["don't", "go", "that way"]);
+      assert.deepEqual(said.options, { loud: true });
 
-  const create = (config?: Partial<typeof defaultConfiguration>) =>
-    library({ ...defaultConfiguration, ...(config || {}) });
+      const help = parseCommand({ content: "!cmd --help foo -h" });
+      assert.deepEqual(help.args, ["foo"]);
+      assert.deepEqual(help.options, { help: true });
+    });
 
-  const installedLibrary = {
-    _meta: {
-      ...cfg,
-    },
-    library,
-    getInstance: (config?: Partial<typeof defaultConfiguration>) => {
-      _instance = _instance || create(config);
-      return _instance;
-    },
-    create,
-  } as const;
+    it("run for permitted players", (world) => {
+      world._importCampaign({
+        players: [
+          { id: "gm", _displayname: "GM", gm: true },
+          { id: "abe", _displayname: "Abe" },
+        ],
+        graphics: [{ id: "mine", controlledby: "abe" }, { id: "theirs" }],
+      });
+      const healed: string[] = [];
+      const commands = world.createCommandRegistry();
+      commands.register({
+        name: "heal",
+        controlSelected: true,
+        handler: ({ selected, options, reply }) => {
+          selected.forEach((obj) => healed.push(obj.id));
+          reply(`Healed by ${options.by}.`);
+        },
+      });
+      commands.register({ name: "reset", gmOnly: true, handler: () => {} });
 
-  // copy installed library to scope.
-  const scope = util.getScope(name);
-  Object.keys(installedLibrary).forEach((key) => {
-    scope[key] = installedLibrary[key as keyof typeof installedLibrary];
+      const select = (...ids: string[]) =>
+        ids.map((_id) => ({ _id, _type: "graphic" as const }));
+      world._playerChat("abe", "!heal --by 3", select("mine"));
+      world._playerChat("abe", "!heal --by 3", select("mine", "theirs"));
+      world._playerChat("gm", "!heal --by 5", select("theirs"));
+      world._playerChat("abe", "!reset");
+
+      assert.deepEqual(healed, ["mine", "theirs"]);
+      assert.chatted(world, { target: "abe", content: "Healed by 3." });
+      assert.chatted(world, { target: "gm", content: "Healed by 5." });
+      assert.chatted(world, {
+        target: "abe",
+        content: "!heal needs selected tokens that you control.",
+      });
+      assert.chatted(world, {
+        target: "abe",
+        content: "!reset may only be used by the GM.",
+      });
+    });
+
+    it("whisper help and errors", (world) => {
+      world._importCampaign({ players: [{ id: "abe", _displayname: "Abe" }] });
+      const commands = world.createCommandRegistry();
+      commands.register({
+        name: "boom",
+        description: "Explodes.",
+        options: { loud: { flag: true, description: "Make noise." } },
+        handler: () => {
+          throw new Error("Kaboom.");
+        },
+      });
+      world._playerChat("abe", "!boom --help");
+      world._playerChat("abe", "!boom");
+      world._playerChat("abe", "!boom --help loudly");
+      world._playerChat("abe", "!boom -h");
+
+      assert.equal(
+        world.chat.filter(({ content }) => content.indexOf("Explodes.") > -1)
+          .length,
+        3,
+        "Help not shown for each request."
+      );
+      assert.chatted(world, {
+        target: "abe",
+        content: "!boom: Explodes.<br>--loud: Make noise.",
+      });
+      assert.chatted(world, {
+        target: "abe",
+        content: "!boom failed: Kaboom.",
+      });
+    });
   });
 
-  return installedLibrary;
-})({
-  name: "basiliskasterisk.roll20Api",
-  version: "0.0.1",
-  defaultConfiguration: {
-    logLevel: 10,
-    mocks: {},
-    wrappers: {},
-  },
-} as const);
+  describe("findObjs", () => {
+    it("matches aliases, loosely and case-insensitively", ({ api }) => {
+      const hero = api.createObj("character", { name: "Hero" });
+      const hp = api.createObj("attribute", {
+        characterid: hero.id,
+        name: "HP",
+        current: 8,
+      });
+      api.createObj("attribute", { characterid: hero.id, name: "AC" });
 
-const api = basiliskasterisk__roll20Api.getInstance();
+      assert.deepEqual(api.findObjs({ id: hero.id }), [hero]);
+      assert.deepEqual(api.findObjs({ _id: hero.id, type: "character" }), [
+        hero,
+      ]);
+      assert.deepEqual(
+        api.findObjs({ type: "attribute", characterid: hero.id, current: "8" }),
+        [hp]
+      );
+      assert.deepEqual(api.findObjs({ _type: "attribute", name: "hp" }), []);
+      assert.deepEqual(
+        api.findObjs(
+          { _type: "attribute", name: "hp", current: 8 },
+          { caseInsensitive: true }
+        ),
+        [hp]
+      );
+    });
 
-// API testing.
-(({ runTests }) => {
-  if (!runTests) {
-    return;
-  }
+    it("keeps its indexes up to date", ({ api }) => {
+      const graphic = api.createObj("graphic", { _pageid: "p1" });
+      assert.equal(api.findObjs({ _pageid: "p1" }).length, 1);
+      graphic.remove();
+      assert.equal(api.findObjs({ _pageid: "p1" }).length, 0);
+      assert.equal(api.findObjs({ _type: "graphic" }).length, 0);
+    });
+
+    it("finds indexed objects in creation order, without adding buckets", ({
+      api,
+      Roll20Object,
+    }) => {
+      const first = api.createObj("graphic", { _pageid: "p1" });
+      const handout = api.createObj("handout", { name: "Notes", notes: "x" });
+      const second = api.createObj("graphic", { _pageid: "p1" });
+      api.createObj("graphic", { _pageid: "p2" }).remove();
+
+      assert.deepEqual(api.findObjs({ _pageid: "p1" }), [first, second]);
+      assert.deepEqual(api.findObjs({ _pageid: "p3" }), []);
+      assert.ok(
+        !("p3" in Roll20Object.indexes._pageid),
+        "Read added a bucket."
+      );
+      assert.ok(
+        !("p2" in Roll20Object.indexes._pageid),
+        "Kept an empty bucket."
+      );
+      assert.deepEqual(api.findObjs({ _type: "handout", notes: "x" }), []);
+      assert.deepEqual(api.findObjs({ _id: handout.id }), [handout]);
+    });
 
-  const _util = basiliskasterisk.util.create();
-  const { log, info, error } = _util.getLogger({
-    logLevel: "TRACE",
-    name: "TEST",
+    it("filters real objects", ({ api }) => {
+      api.createObj("handout", { name: "Map" });
+      const found = api.filterObjs((obj) => obj.get("name") === "Map");
+      assert.equal(found.length, 1);
+      assert.equal(found[0].get("_type"), "handout");
+    });
   });
 
-  const {
-    api,
-    Roll20Object,
-    _fireEvent,
-    _inSandbox,
-    _setAsGM,
-    _promote,
-  } = basiliskasterisk__roll20Api.create();
-
-  const test = (t: boolean, msg: string) => {
-    if (t === true) {
-      info(`PASSED: (${msg})`);
-      return;
-    }
-    error(`FAILED: (${msg})`);
-  };
+  describe("worlds", () => {
+    it("are isolated between instances", ({ api, _promote }) => {
+      const keys = ["createObj", "getAllObjs", "on", "sendChat"] as const;
+      api.createObj("handout", { name: "Mine" });
+      api.on("chat:message", () => {
+        throw new Error("Heard another world.");
+      });
+      _promote([...keys]);
+      try {
+        const other = basiliskasterisk__roll20Api.create({ logLevel: 50 });
+        other.api.sendChat("Other", "Hello.");
+        assert.equal(other.api.getAllObjs().length, 0);
+      } finally {
+        const scope = basiliskasterisk.util.getInstance().getScope();
+        keys.forEach((key) => delete scope[key]);
+      }
+    });
 
-  // If not in the sandbox, we don't have access to the campaign,
-  // players, handouts, etc. We have to create them. createObj
-  // excludes creating some of these things, so the mocked Roll20Object
-  // constructor is used directly.
+    it("use the sandbox's own global functions", () => {
+      const scope = basiliskasterisk.util.getInstance().getScope();
+      const randomInteger = (max: number) => max;
+      scope.randomInteger = randomInteger;
+      try {
+        const { api } = basiliskasterisk__roll20Api.create({ logLevel: 50 });
+        assert.equal(api.randomInteger, randomInteger);
+      } finally {
+        delete scope.randomInteger;
+      }
+    });
 
-  // Build test data, validating it as we go.
-  const campaign = api.Campaign();
+    it("may be reset", (world) => {
+      world.api.createObj("handout", { name: "Gone" });
+      world.api.state.gone = true;
+      world._setAsGM("gm");
+      world.api.setTimeout(() => {}, 100);
+      world.scheduler.tick(50);
+      world._reset();
+      world.api.createObj("handout", { name: "Unrecorded" });
+      assert.fired(world, "add:handout", 1);
+      world._reset();
+      assert.equal(world.scheduler.now(), 0);
+      assert.equal(world.scheduler.pending(), 0);
+      assert.notExists(world, "handout");
+      assert.deepEqual(world.api.state, {});
+      assert.ok(!world.api.playerIsGM("gm"), `GM survived reset.`);
+    });
 
-  // Test the Campaign singleton.
-  test(!!campaign.id, "Campaign singleton found.");
+    it("may be forked", (world) => {
+      const handout = world.api.createObj("handout", { name: "Shared" });
+      world.api.state.shared = 1;
+      const fork = world._fork();
+      fork.api.getAllObjs()[0].set("name", "Forked");
+      fork.api.state.shared = 2;
 
-  // @ts-ignore
-  log(`${require.toString()}`);
-
-  if (!_inSandbox()) {
-    // Create players, and assign one as GM.
-    const players = ["Abe", "Bernie", "Cookie", "Debbie", "Edith"].map(
-      (name) =>
-        new Roll20Object({
-          type: "player",
-          name,
-        })
-    );
-    test(
-      !api.playerIsGM(players[0].id),
-      `Character "${players[0].id}" is not GM.`
-    );
-    _setAsGM(players[0].id);
-    test(
-      api.playerIsGM(players[0].id),
-      `Character "${players[0].id}" is now GM.`
-    );
-  }
+      assert.has(handout, { name: "Shared" });
+      assert.equal(world.api.state.shared, 1);
+      assert.equal(fork.api.getAllObjs()[0].id, handout.id);
+      assert.equal(fork.api.getAllObjs()[0].get("name"), "Forked");
+    });
+  });
+
+  describe("logging", () => {
+    it("applies levels by name", () => {
+      const capture = basiliskasterisk.util.getInstance().captureSink();
+      const util = basiliskasterisk.util.create({
+        logLevels: "roll20Api.*=WARN, roll20Api.chat=TRACE",
+        logSinks: [capture.sink],
+      });
+      const logger = util.getLogger({ name: "roll20Api" });
+      logger.info("Quiet.");
+      logger.warn("Loud.");
+      logger.child("turns").info("Quiet.");
+      util.getLogger({ name: "roll20Api.chat" }).trace("Chatty.");
+      util.getLogger({ name: "other" }).info("Other.");
 
-  if (!_inSandbox()) {
-    // Test usual event handling.
-    api.on("chat:message", (msg: any) => {
-      test(true, `Heard "${JSON.stringify(msg)}".`);
+      assert.deepEqual(
+        capture.records.map(({ name, message }) => `${name}: ${message}`),
+        ["roll20Api: Loud.", "roll20Api.chat: Chatty.", "other: Other."]
+      );
+      assert.equal(capture.at("WARN").length, 1);
+      assert.throws(() => util.setLogLevels("roll20Api="), "Took no level.");
+      assert.throws(() => util.setLogLevels("roll20Api=LOUD"), "Took LOUD.");
+      logger.info("Still quiet.");
+      assert.equal(capture.records.length, 3);
+      util.setLogLevels({ roll20Api: "INFO" });
+      logger.info("Heard.");
+      assert.equal(capture.records.length, 4);
     });
 
-    _fireEvent("chat:message", { message: "Foo!" });
+    it("emits JSON lines and keeps a child's emission function", () => {
+      const lines: string[] = [];
+      const util = basiliskasterisk.util.create({
+        logSinks: [
+          basiliskasterisk.util
+            .getInstance()
+            .jsonLinesSink((line) => lines.push(line)),
+        ],
+      });
+      const circular: Record<string, any> = {};
+      circular.self = circular;
+      util.getLogger({ name: "json" }).warn("Odd data.", circular);
+      const emitted: string[] = [];
+      util
+        .getLogger({ name: "own", emissionFn: (str) => emitted.push(str) })
+        .child("child")
+        .info("Mine.");
 
-    // Test web worker event handling.
-    api.onSheetWorkerCompleted(() => {
-      test(true, `Callback registered with onSheetWorkerCompleted() called.`);
+      assert.equal(lines.length, 1);
+      const record = JSON.parse(lines[0]);
+      assert.equal(record.level, "WARN");
+      assert.equal(record.name, "json");
+      assert.deepEqual(record.data, ["[object Object]"]);
+      assert.ok(typeof record.time === "number", "No time.");
+      assert.deepEqual(emitted, ["own.child [INFO]: Mine."]);
     });
 
-    _fireEvent("sheetWorkerCompleted");
-  }
+    it("captures the mocked log", () => {
+      const instance = basiliskasterisk__roll20Api.create({
+        logLevel: 50,
+        logLevels: "log=INFO",
+        logSinks: [],
+      });
+      const world = { ...instance, ...instance._record() };
+      world.api.log({ hp: 3 });
+      world.api.log(undefined);
+
+      assert.deepEqual(assert.logged(world, "INFO", "hp").message, '{"hp":3}');
+      assert.equal(assert.logged(world, "INFO").name, "log");
+      assert.logged(world, "INFO", "undefined");
+
+      const later = instance._record();
+      world.stop();
+      world.api.log("After.");
+      assert.notLogged(world, "INFO", "After.");
+      assert.logged({ ...world, ...later }, "INFO", "After.");
+      instance._reset();
+      world.api.log("Reset.");
+      assert.equal(later.logs.length, 1);
+    });
+
+    it("records errors", (world) => {
+      world.api.spawnFx(10, 10, "bomb-fire", "stage");
+      assert.notLogged(world, "ERROR");
+      world.api.spawnFx(10, 10, "sparkle-mauve", "stage");
+      assert.logged(world, "ERROR", /Unknown fx "sparkle-mauve"/);
+    });
+  });
+
+  run();
 })({
   // @ts-ignore
   runTests: true,